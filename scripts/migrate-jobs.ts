@@ -0,0 +1,91 @@
+/**
+ * One-off backfill for jobs posted before `status`, `expiresAt`, `keywords`,
+ * `geohash` and `moderation` existed. The feed, radius and search queries
+ * filter on those fields, so such jobs stay invisible until this has run. It
+ * also moves contact details still on the public doc into
+ * jobs/{id}/private/contact, where the rules can protect them. Uses the Admin
+ * SDK (it bypasses security rules), so run it from a trusted machine:
+ *
+ *   GOOGLE_APPLICATION_CREDENTIALS=service-account.json npm run migrate:jobs
+ *
+ * Pass `-- --dry-run` to only count what would change. Safe to re-run: jobs
+ * that already have every field are left alone.
+ */
+import { initializeApp } from "firebase-admin/app";
+import {
+  FieldPath,
+  FieldValue,
+  getFirestore,
+  type DocumentData,
+  type QueryDocumentSnapshot,
+  type WriteBatch,
+} from "firebase-admin/firestore";
+import type { QueryDocumentSnapshot as ClientSnapshot } from "firebase/firestore";
+import { contactOf, jobConverter } from "../src/firebase/converters";
+import { geohashOf } from "../src/utils/geo";
+
+// A job can need two writes, and a batch holds at most 500
+const PAGE_SIZE = 200;
+
+const dryRun = process.argv.includes("--dry-run");
+
+initializeApp();
+const db = getFirestore();
+
+/**
+ * Queue the writes a legacy job needs, deriving missing fields the same way
+ * the app reads them. False when the job is already up to date.
+ */
+function backfill(batch: WriteBatch, d: QueryDocumentSnapshot): boolean {
+  const data = d.data();
+  // The converter only calls id and data(), which both SDKs' snapshots share
+  const job = jobConverter.fromFirestore(d as unknown as ClientSnapshot);
+  const patch: DocumentData = {};
+
+  if (data.status === undefined) patch.status = job.status;
+  if (data.expiresAt === undefined) patch.expiresAt = job.expiresAt;
+  if (data.keywords === undefined) patch.keywords = job.keywords;
+  if (data.moderation === undefined) patch.moderation = null;
+  if (data.geohash === undefined && job.location) {
+    patch.location = { lat: job.location.lat, lng: job.location.lng };
+    patch.geohash = geohashOf(job.location);
+  }
+  if (data.contactEmail !== undefined || data.contactPhone !== undefined) {
+    batch.set(d.ref.collection("private").doc("contact"), contactOf(data));
+    patch.contactEmail = FieldValue.delete();
+    patch.contactPhone = FieldValue.delete();
+  }
+
+  if (!Object.keys(patch).length) return false;
+  batch.update(d.ref, patch);
+  return true;
+}
+
+async function main() {
+  let scanned = 0;
+  let updated = 0;
+  let last: QueryDocumentSnapshot | undefined;
+
+  for (;;) {
+    let page = db.collection("jobs").orderBy(FieldPath.documentId()).limit(PAGE_SIZE);
+    if (last) page = page.startAfter(last);
+    const snap = await page.get();
+    if (snap.empty) break;
+
+    // One batch per page, so a job's contact move and its cleanup land together
+    const batch = db.batch();
+    for (const d of snap.docs) {
+      scanned++;
+      if (backfill(batch, d)) updated++;
+    }
+    if (!dryRun) await batch.commit();
+    last = snap.docs[snap.docs.length - 1];
+  }
+
+  console.log(`${dryRun ? "Would update" : "Updated"} ${updated} of ${scanned} jobs.`);
+}
+
+main().catch((e) => {
+  console.error(e instanceof Error ? e.message : e);
+  process.exit(1);
+});
@@ -0,0 +1,65 @@
+"use client";
+
+import { useState } from "react";
+import { Alert, Paper, Snackbar, Stack, Tab, Tabs, Typography } from "@mui/material";
+import { ModerationAuditLog, ModerationJobs, ModerationUsers } from "../../../components/Moderation";
+import { RequireAuth } from "../../../components/RequireAuth";
+import { useAuth } from "../../../context/AuthContext";
+
+type AdminTab = "jobs" | "users" | "log";
+
+export default function AdminPage() {
+  return (
+    <RequireAuth>
+      <AdminInner />
+    </RequireAuth>
+  );
+}
+
+function AdminInner() {
+  const { user, isAdmin } = useAuth();
+  const uid = user!.uid;
+
+  const [tab, setTab] = useState<AdminTab>("jobs");
+  const [snack, setSnack] = useState<{ open: boolean; msg: string }>({ open: false, msg: "" });
+  const onMessage = (msg: string) => setSnack({ open: true, msg });
+
+  // The proxy already turns non-moderators away; this covers a claim removed since sign-in
+  if (!isAdmin) {
+    return (
+      <Paper sx={{ p: 3 }}>
+        <Alert severity="error">You need moderator access to see this page.</Alert>
+      </Paper>
+    );
+  }
+
+  return (
+    <>
+      <Paper sx={{ p: 3 }}>
+        <Stack spacing={2}>
+          <Typography variant="h5" fontWeight={800}>
+            Moderation
+          </Typography>
+
+          <Tabs value={tab} onChange={(_, v: AdminTab) => setTab(v)} variant="fullWidth">
+            <Tab value="jobs" label="Jobs" />
+            <Tab value="users" label="Users" />
+            <Tab value="log" label="Audit log" />
+          </Tabs>
+
+          {tab === "jobs" && <ModerationJobs moderatorUid={uid} onMessage={onMessage} />}
+          {tab === "users" && <ModerationUsers moderatorUid={uid} onMessage={onMessage} />}
+          {/* Remounts on every visit, so new actions show up */}
+          {tab === "log" && <ModerationAuditLog />}
+        </Stack>
+      </Paper>
+
+      <Snackbar
+        open={snack.open}
+        autoHideDuration={2500}
+        onClose={() => setSnack((s) => ({ ...s, open: false }))}
+        message={snack.msg}
+      />
+    </>
+  );
+}
@@ -0,0 +1,274 @@
+"use client";
+
+import { Suspense, useEffect, useRef, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { applyActionCode, confirmPasswordReset, verifyPasswordResetCode } from "firebase/auth";
+import { FirebaseError } from "firebase/app";
+import { useAuth } from "../../../../context/AuthContext";
+import { auth } from "../../../../firebase/firebase";
+import { authErrorMessage } from "../../../../firebase/authErrors";
+import {
+  Alert,
+  Box,
+  Button,
+  Paper,
+  Stack,
+  TextField,
+  Typography,
+} from "@mui/material";
+
+/**
+ * Landing page for Firebase Auth email links. The email templates' action URL
+ * points here, and Firebase appends `mode`, `oobCode` and `continueUrl`.
+ */
+export default function AuthActionPage() {
+  // useSearchParams needs a Suspense boundary for the static build
+  return (
+    <Suspense fallback={null}>
+      <AuthActionInner />
+    </Suspense>
+  );
+}
+
+/** Only follow continue links back into this site. */
+function continuePath(continueUrl: string | null): string {
+  if (!continueUrl) return "/login";
+  try {
+    const url = new URL(continueUrl, window.location.origin);
+    return url.origin === window.location.origin ? url.pathname + url.search : "/login";
+  } catch {
+    return "/login";
+  }
+}
+
+function AuthActionInner() {
+  const searchParams = useSearchParams();
+  const mode = searchParams.get("mode");
+  const oobCode = searchParams.get("oobCode");
+  const next = continuePath(searchParams.get("continueUrl"));
+
+  if (!oobCode) {
+    return <LinkProblem message="This link is incomplete. Make sure you opened the whole link from the email." />;
+  }
+
+  if (mode === "resetPassword") return <ResetPassword oobCode={oobCode} next={next} />;
+  if (mode === "verifyEmail") return <VerifyEmail oobCode={oobCode} next={next} />;
+
+  return <LinkProblem message="This link isn’t one we recognize." />;
+}
+
+/** `retry` offers a fresh password reset link instead of the way back to log in. */
+function LinkProblem({ message, retry }: { message: string; retry?: boolean }) {
+  const router = useRouter();
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      <Stack spacing={2}>
+        <Typography variant="h5" fontWeight={800}>
+          Link problem
+        </Typography>
+        <Alert severity="error">{message}</Alert>
+        <Box>
+          <Button variant="contained" onClick={() => router.push(retry ? "/forgot-password" : "/login")}>
+            {retry ? "Request a new link" : "Go to log in"}
+          </Button>
+        </Box>
+      </Stack>
+    </Paper>
+  );
+}
+
+const DEAD_CODE_ERRORS = ["auth/expired-action-code", "auth/invalid-action-code"];
+
+type ResetState =
+  | { state: "checking" }
+  | { state: "invalid"; message: string }
+  | { state: "ready"; email: string }
+  | { state: "done" };
+
+function ResetPassword({ oobCode, next }: { oobCode: string; next: string }) {
+  const router = useRouter();
+  const [status, setStatus] = useState<ResetState>({ state: "checking" });
+  const [password, setPassword] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const email = await verifyPasswordResetCode(auth, oobCode);
+        if (!cancelled) setStatus({ state: "ready", email });
+      } catch (e) {
+        if (!cancelled) {
+          setStatus({ state: "invalid", message: authErrorMessage(e, "This reset link can’t be used.") });
+        }
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [oobCode]);
+
+  const onSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (password !== confirm) {
+      setError("The passwords don’t match.");
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await confirmPasswordReset(auth, oobCode, password);
+      setStatus({ state: "done" });
+    } catch (err) {
+      const message = authErrorMessage(err, "Failed to reset password.");
+      // The code can expire between opening the page and submitting
+      if (err instanceof FirebaseError && DEAD_CODE_ERRORS.includes(err.code)) setStatus({ state: "invalid", message });
+      else setError(message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (status.state === "checking") {
+    return (
+      <Paper sx={{ p: 3 }}>
+        <Typography>Checking your link...</Typography>
+      </Paper>
+    );
+  }
+
+  if (status.state === "invalid") return <LinkProblem message={status.message} retry />;
+
+  if (status.state === "done") {
+    return (
+      <Paper sx={{ p: 3 }}>
+        <Stack spacing={2}>
+          <Typography variant="h5" fontWeight={800}>
+            Password changed
+          </Typography>
+          <Alert severity="success">You can now log in with your new password.</Alert>
+          <Box>
+            <Button variant="contained" onClick={() => router.push(next)}>
+              Continue
+            </Button>
+          </Box>
+        </Stack>
+      </Paper>
+    );
+  }
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      <Stack spacing={2} component="form" onSubmit={onSubmit}>
+        <Typography variant="h5" fontWeight={800}>
+          Choose a new password
+        </Typography>
+
+        <Typography color="text.secondary">For {status.email}</Typography>
+
+        {error && <Alert severity="error">{error}</Alert>}
+
+        <TextField
+          label="New password"
+          type="password"
+          value={password}
+          autoComplete="new-password"
+          onChange={(e) => setPassword(e.target.value)}
+          helperText="At least 6 characters."
+          required
+          fullWidth
+        />
+        <TextField
+          label="Confirm new password"
+          type="password"
+          value={confirm}
+          autoComplete="new-password"
+          onChange={(e) => setConfirm(e.target.value)}
+          required
+          fullWidth
+        />
+
+        <Button
+          type="submit"
+          variant="contained"
+          size="large"
+          disabled={submitting}
+        >
+          {submitting ? "Saving..." : "Save new password"}
+        </Button>
+      </Stack>
+    </Paper>
+  );
+}
+
+function VerifyEmail({ oobCode, next }: { oobCode: string; next: string }) {
+  const router = useRouter();
+  const { user, loading, refreshUser } = useAuth();
+  const [status, setStatus] = useState<
+    { state: "checking" } | { state: "invalid"; message: string } | { state: "done" }
+  >({ state: "checking" });
+
+  // The code is single-use, so keep the one attempt across effect re-runs
+  const applied = useRef<Promise<void> | null>(null);
+
+  useEffect(() => {
+    // Wait for auth so a signed-in user's emailVerified is refreshed below
+    if (loading) return;
+    let cancelled = false;
+
+    (async () => {
+      try {
+        applied.current ??= applyActionCode(auth, oobCode);
+        await applied.current;
+        if (user) await refreshUser().catch(() => {});
+        if (!cancelled) setStatus({ state: "done" });
+      } catch (e) {
+        if (!cancelled) {
+          setStatus({ state: "invalid", message: authErrorMessage(e, "This verification link can’t be used.") });
+        }
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [oobCode, loading, user, refreshUser]);
+
+  if (status.state === "checking") {
+    return (
+      <Paper sx={{ p: 3 }}>
+        <Typography>Verifying your email...</Typography>
+      </Paper>
+    );
+  }
+
+  if (status.state === "invalid") {
+    return (
+      <LinkProblem
+        message={`${status.message} You can send a new verification email from your profile once you log in.`}
+      />
+    );
+  }
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      <Stack spacing={2}>
+        <Typography variant="h5" fontWeight={800}>
+          Email verified
+        </Typography>
+        <Alert severity="success">Thanks! You can now post jobs.</Alert>
+        <Box>
+          <Button variant="contained" onClick={() => router.push(user ? next : "/login")}>
+            Continue
+          </Button>
+        </Box>
+      </Stack>
+    </Paper>
+  );
+}
@@ -0,0 +1,104 @@
+"use client";
+
+import { Suspense, useState } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { sendPasswordResetEmail } from "firebase/auth";
+import { FirebaseError } from "firebase/app";
+import { auth } from "../../../firebase/firebase";
+import { authErrorMessage } from "../../../firebase/authErrors";
+import {
+  Alert,
+  Box,
+  Button,
+  Paper,
+  Stack,
+  TextField,
+  Typography,
+} from "@mui/material";
+
+export default function ForgotPasswordPage() {
+  // useSearchParams needs a Suspense boundary for the static build
+  return (
+    <Suspense fallback={null}>
+      <ForgotPasswordInner />
+    </Suspense>
+  );
+}
+
+function ForgotPasswordInner() {
+  const searchParams = useSearchParams();
+  const [email, setEmail] = useState(searchParams.get("email") ?? "");
+  const [submitting, setSubmitting] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const onSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSubmitting(true);
+    const address = email.trim();
+    try {
+      // The link lands on /auth/action, which sends them back to log in afterwards
+      await sendPasswordResetEmail(auth, address, { url: `${window.location.origin}/login` });
+      setSentTo(address);
+    } catch (err) {
+      // Same answer whether or not the account exists, so this can't be used to probe emails
+      if (err instanceof FirebaseError && err.code === "auth/user-not-found") setSentTo(address);
+      else setError(authErrorMessage(err, "Couldn’t send the reset email."));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      <Stack spacing={2} component="form" onSubmit={onSubmit}>
+        <Typography variant="h5" fontWeight={800}>
+          Reset password
+        </Typography>
+
+        {error && <Alert severity="error">{error}</Alert>}
+
+        {sentTo ? (
+          <Alert severity="success">
+            If an account exists for {sentTo}, we’ve sent it a link to choose a new password. Check
+            your spam folder if it doesn’t arrive in a few minutes.
+          </Alert>
+        ) : (
+          <Typography color="text.secondary">
+            Enter the email you signed up with and we’ll send you a link to choose a new password.
+          </Typography>
+        )}
+
+        <TextField
+          label="Email"
+          type="email"
+          value={email}
+          autoComplete="email"
+          onChange={(e) => setEmail(e.target.value)}
+          required
+          fullWidth
+        />
+
+        <Button
+          type="submit"
+          variant="contained"
+          size="large"
+          disabled={submitting}
+        >
+          {submitting ? "Sending..." : sentTo ? "Send again" : "Send reset link"}
+        </Button>
+
+        <Box>
+          <Typography variant="body2" color="text.secondary">
+            Remembered it?{" "}
+            <Link href="/login" style={{ textDecoration: "none" }}>
+              Log in
+            </Link>
+          </Typography>
+        </Box>
+      </Stack>
+    </Paper>
+  );
+}
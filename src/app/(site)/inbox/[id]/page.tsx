@@ -0,0 +1,191 @@
+"use client";
+
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { useEffect, useRef, useState } from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  IconButton,
+  Paper,
+  Stack,
+  TextField,
+  Typography,
+} from "@mui/material";
+import ArrowBackIcon from "@mui/icons-material/ArrowBack";
+import SendIcon from "@mui/icons-material/Send";
+
+import { RatingSummary } from "../../../../components/RatingSummary";
+import { RequireAuth } from "../../../../components/RequireAuth";
+import { useAuth } from "../../../../context/AuthContext";
+import {
+  markConversationRead,
+  otherParticipant,
+  sendMessage,
+  subscribeToConversation,
+  subscribeToMessages,
+} from "../../../../firebase/conversations";
+import type { Conversation, Message } from "../../../../types/conversation";
+
+export default function ConversationPage() {
+  return (
+    <RequireAuth>
+      <ConversationInner />
+    </RequireAuth>
+  );
+}
+
+function ConversationInner() {
+  const params = useParams<{ id: string }>();
+  const id = params?.id;
+  const { user } = useAuth();
+  const uid = user!.uid;
+
+  // undefined = loading, null = not found (or not ours)
+  const [conversation, setConversation] = useState<Conversation | null | undefined>(undefined);
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const [draft, setDraft] = useState("");
+  const [sending, setSending] = useState(false);
+  const bottomRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    if (!id) return;
+    const fail = (e: Error) => setError(e.message || "Failed to load conversation.");
+
+    const unsubConversation = subscribeToConversation(id, setConversation, fail);
+    const unsubMessages = subscribeToMessages(id, setMessages, fail);
+
+    return () => {
+      unsubConversation();
+      unsubMessages();
+    };
+  }, [id]);
+
+  const unread = conversation?.unread[uid] ?? 0;
+
+  // Anything that arrives while the thread is open counts as read
+  useEffect(() => {
+    if (id && unread > 0) markConversationRead(id, uid).catch(() => {});
+  }, [id, uid, unread]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: "end" });
+  }, [messages.length]);
+
+  const onSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!conversation || !draft.trim()) return;
+
+    setSending(true);
+    try {
+      await sendMessage(conversation, uid, draft);
+      setDraft("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to send message.");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const isPoster = conversation?.posterUid === uid;
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      <Stack spacing={2}>
+        <Link href="/inbox" style={{ textDecoration: "none" }}>
+          <Button startIcon={<ArrowBackIcon />} variant="text">
+            Back to Messages
+          </Button>
+        </Link>
+
+        {error && <Alert severity="error">{error}</Alert>}
+
+        {conversation === undefined && !error && (
+          <Stack direction="row" spacing={2} alignItems="center">
+            <CircularProgress size={22} />
+            <Typography>Loading conversation...</Typography>
+          </Stack>
+        )}
+
+        {conversation === null && <Alert severity="error">Conversation not found.</Alert>}
+
+        {conversation && (
+          <>
+            <Stack spacing={0.5}>
+              <Typography variant="h5" fontWeight={800}>
+                {isPoster ? conversation.workerName || "Worker" : "Job poster"}
+              </Typography>
+              <RatingSummary uid={otherParticipant(conversation, uid)} />
+              <Link href={`/jobs/${conversation.jobId}`} style={{ color: "inherit" }}>
+                <Typography variant="body2" color="text.secondary">
+                  {conversation.jobTitle || "Untitled job"}
+                </Typography>
+              </Link>
+            </Stack>
+
+            <Stack spacing={1} sx={{ minHeight: 200 }}>
+              {messages.length === 0 && (
+                <Typography variant="body2" color="text.secondary">
+                  Say hello — messages stay here in the app.
+                </Typography>
+              )}
+
+              {messages.map((m) => {
+                const mine = m.senderUid === uid;
+
+                return (
+                  <Box
+                    key={m.id}
+                    sx={{
+                      alignSelf: mine ? "flex-end" : "flex-start",
+                      maxWidth: "80%",
+                      px: 1.5,
+                      py: 1,
+                      borderRadius: 3,
+                      bgcolor: mine ? "primary.main" : "action.hover",
+                      color: mine ? "primary.contrastText" : "text.primary",
+                    }}
+                  >
+                    <Typography variant="body2" sx={{ whiteSpace: "pre-wrap", overflowWrap: "anywhere" }}>
+                      {m.text}
+                    </Typography>
+                    {m.createdAt && (
+                      <Typography variant="caption" sx={{ opacity: 0.7 }}>
+                        {m.createdAt.toLocaleString([], { dateStyle: "short", timeStyle: "short" })}
+                      </Typography>
+                    )}
+                  </Box>
+                );
+              })}
+              <div ref={bottomRef} />
+            </Stack>
+
+            <Stack direction="row" spacing={1} component="form" onSubmit={onSend} alignItems="flex-end">
+              <TextField
+                label="Message"
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                inputProps={{ maxLength: 2000 }}
+                multiline
+                maxRows={4}
+                fullWidth
+              />
+              <IconButton
+                type="submit"
+                color="primary"
+                aria-label="Send"
+                disabled={sending || !draft.trim()}
+              >
+                <SendIcon />
+              </IconButton>
+            </Stack>
+          </>
+        )}
+      </Stack>
+    </Paper>
+  );
+}
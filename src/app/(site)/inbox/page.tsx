@@ -0,0 +1,117 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import {
+  Alert,
+  Box,
+  Chip,
+  CircularProgress,
+  Paper,
+  Stack,
+  Typography,
+} from "@mui/material";
+
+import { RequireAuth } from "../../../components/RequireAuth";
+import { useAuth } from "../../../context/AuthContext";
+import { subscribeToConversations } from "../../../firebase/conversations";
+import type { Conversation } from "../../../types/conversation";
+
+export default function InboxPage() {
+  return (
+    <RequireAuth>
+      <InboxInner />
+    </RequireAuth>
+  );
+}
+
+function InboxInner() {
+  const { user } = useAuth();
+  const uid = user!.uid;
+
+  const [conversations, setConversations] = useState<Conversation[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(
+    () =>
+      subscribeToConversations(uid, setConversations, (e) =>
+        setError(e.message || "Failed to load messages.")
+      ),
+    [uid]
+  );
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      <Stack spacing={2}>
+        <Typography variant="h5" fontWeight={800}>
+          Messages
+        </Typography>
+
+        {error && <Alert severity="error">{error}</Alert>}
+
+        {!conversations && !error && (
+          <Stack direction="row" spacing={2} alignItems="center">
+            <CircularProgress size={22} />
+            <Typography>Loading messages...</Typography>
+          </Stack>
+        )}
+
+        {conversations?.length === 0 && (
+          <Box sx={{ py: 4 }}>
+            <Typography fontWeight={700}>No messages yet.</Typography>
+            <Typography color="text.secondary">
+              Message a poster from any job page to start a conversation.
+            </Typography>
+          </Box>
+        )}
+
+        {conversations?.map((c) => {
+          const unread = c.unread[uid] ?? 0;
+          const isPoster = c.posterUid === uid;
+
+          return (
+            <Link
+              key={c.id}
+              href={`/inbox/${c.id}`}
+              style={{ textDecoration: "none", color: "inherit" }}
+            >
+              <Paper
+                variant="outlined"
+                sx={{
+                  p: 2,
+                  borderRadius: 3,
+                  cursor: "pointer",
+                  borderColor: unread ? "primary.main" : "divider",
+                }}
+              >
+                <Stack direction="row" alignItems="center" justifyContent="space-between" spacing={2}>
+                  <Box sx={{ minWidth: 0 }}>
+                    <Typography fontWeight={unread ? 900 : 700} noWrap>
+                      {isPoster ? c.workerName || "Worker" : "Job poster"}
+                      {" · "}
+                      {c.jobTitle || "Untitled job"}
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary" noWrap>
+                      {c.lastMessage
+                        ? `${c.lastSenderUid === uid ? "You: " : ""}${c.lastMessage}`
+                        : "No messages yet"}
+                    </Typography>
+                  </Box>
+
+                  <Stack alignItems="flex-end" spacing={0.5} sx={{ flexShrink: 0 }}>
+                    {c.lastMessageAt && (
+                      <Typography variant="caption" color="text.secondary">
+                        {c.lastMessageAt.toLocaleDateString()}
+                      </Typography>
+                    )}
+                    {unread > 0 && <Chip size="small" color="primary" label={unread} />}
+                  </Stack>
+                </Stack>
+              </Paper>
+            </Link>
+          );
+        })}
+      </Stack>
+    </Paper>
+  );
+}
@@ -0,0 +1,286 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import Link from "next/link";
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Paper,
+  Snackbar,
+  Stack,
+  Typography,
+} from "@mui/material";
+import ArrowBackIcon from "@mui/icons-material/ArrowBack";
+import ChatIcon from "@mui/icons-material/Chat";
+
+import { RatingSummary } from "../../../../../components/RatingSummary";
+import { RequireAuth } from "../../../../../components/RequireAuth";
+import {
+  APPLICATION_STATUS_COLOR,
+  APPLICATION_STATUS_LABEL,
+  formatOccurrences,
+} from "../../../../../components/JobInterest";
+import { useAuth } from "../../../../../context/AuthContext";
+import { decideApplication, listApplications } from "../../../../../firebase/applications";
+import { startConversation } from "../../../../../firebase/conversations";
+import { getJob } from "../../../../../firebase/jobs";
+import type { Application } from "../../../../../types/application";
+import type { Job } from "../../../../../types/job";
+
+type ApplicantsState =
+  | { state: "loading" }
+  | { state: "error"; message: string }
+  | { state: "forbidden" }
+  | { state: "ok"; job: Job; applications: Application[] };
+
+export default function ApplicantsPage() {
+  return (
+    <RequireAuth>
+      <ApplicantsInner />
+    </RequireAuth>
+  );
+}
+
+function ApplicantsInner() {
+  const params = useParams<{ id: string }>();
+  const id = params?.id;
+  const router = useRouter();
+  const { user } = useAuth();
+  const uid = user!.uid;
+
+  const [view, setView] = useState<ApplicantsState>({ state: "loading" });
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [snack, setSnack] = useState<{ open: boolean; msg: string }>({
+    open: false,
+    msg: "",
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        if (!id) {
+          setView({ state: "error", message: "Missing job id." });
+          return;
+        }
+
+        const job = await getJob(id);
+        if (cancelled) return;
+
+        if (!job) {
+          setView({ state: "error", message: "Job not found." });
+          return;
+        }
+
+        if (job.userId !== uid) {
+          setView({ state: "forbidden" });
+          return;
+        }
+
+        const applications = await listApplications(id);
+        if (!cancelled) setView({ state: "ok", job, applications });
+      } catch (e) {
+        if (!cancelled)
+          setView({
+            state: "error",
+            message: e instanceof Error ? e.message : "Failed to load applicants.",
+          });
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id, uid]);
+
+  const onDecide = async (application: Application, status: "accepted" | "declined") => {
+    if (view.state !== "ok") return;
+
+    setBusyId(application.id);
+    try {
+      const decided = await decideApplication(view.job, application, status);
+      setView({
+        ...view,
+        job:
+          status === "accepted"
+            ? {
+                ...view.job,
+                filledOccurrences: [
+                  ...new Set([...view.job.filledOccurrences, ...decided.occurrences]),
+                ],
+              }
+            : view.job,
+        applications: view.applications.map((a) => (a.id === application.id ? decided : a)),
+      });
+      setSnack({ open: true, msg: status === "accepted" ? "Accepted." : "Declined." });
+    } catch (e) {
+      setSnack({ open: true, msg: e instanceof Error ? e.message : "Failed to update applicant." });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const onMessage = async (application: Application) => {
+    if (view.state !== "ok") return;
+
+    setBusyId(application.id);
+    try {
+      const conversationId = await startConversation(
+        view.job,
+        application.workerUid,
+        application.workerName
+      );
+      router.push(`/inbox/${conversationId}`);
+    } catch (e) {
+      setSnack({ open: true, msg: e instanceof Error ? e.message : "Failed to open conversation." });
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <>
+      <Paper sx={{ p: 3 }}>
+        <Stack spacing={2}>
+          <Link href={id ? `/jobs/${id}` : "/my-jobs"} style={{ textDecoration: "none" }}>
+            <Button startIcon={<ArrowBackIcon />} variant="text">
+              Back to Job
+            </Button>
+          </Link>
+
+          {view.state === "loading" && (
+            <Stack direction="row" spacing={2} alignItems="center">
+              <CircularProgress size={22} />
+              <Typography>Loading applicants...</Typography>
+            </Stack>
+          )}
+
+          {view.state === "error" && <Alert severity="error">{view.message}</Alert>}
+
+          {view.state === "forbidden" && (
+            <Alert severity="warning">Only the person who posted this job can see who applied.</Alert>
+          )}
+
+          {view.state === "ok" && (
+            <>
+              <Stack spacing={0.5}>
+                <Typography variant="h5" fontWeight={800}>
+                  Applicants
+                </Typography>
+                <Typography variant="body2" color="text.secondary">
+                  {view.job.title || "Untitled job"}
+                </Typography>
+              </Stack>
+
+              {view.applications.length === 0 ? (
+                <Box sx={{ py: 4 }}>
+                  <Typography fontWeight={700}>No one yet.</Typography>
+                  <Typography color="text.secondary">
+                    When someone taps “I’m interested”, they’ll show up here.
+                  </Typography>
+                </Box>
+              ) : (
+                <Stack spacing={2}>
+                  {view.applications.map((a) => (
+                    <Paper key={a.id} variant="outlined" sx={{ p: 2, borderRadius: 3 }}>
+                      <Stack spacing={1}>
+                        <Stack direction="row" justifyContent="space-between" alignItems="center" spacing={2}>
+                          <Box sx={{ minWidth: 0 }}>
+                            <Link href={`/users/${a.workerUid}`} style={{ color: "inherit" }}>
+                              <Typography fontWeight={800} noWrap>
+                                {a.workerName || "Unnamed worker"}
+                              </Typography>
+                            </Link>
+                            <RatingSummary uid={a.workerUid} />
+                            <Typography variant="body2" color="text.secondary">
+                              {a.createdAt ? `Responded ${a.createdAt.toLocaleDateString()}` : "Responded"}
+                            </Typography>
+                          </Box>
+
+                          <Chip
+                            size="small"
+                            color={APPLICATION_STATUS_COLOR[a.status]}
+                            label={a.status === "pending" ? "New" : APPLICATION_STATUS_LABEL[a.status]}
+                          />
+                        </Stack>
+
+                        {a.occurrences.length > 0 && (
+                          <Typography variant="body2">
+                            For {formatOccurrences(a.occurrences)}
+                          </Typography>
+                        )}
+
+                        {a.acceptedOccurrences.some((k) => !a.occurrences.includes(k)) && (
+                          <Typography variant="body2" color="text.secondary">
+                            Already accepted for{" "}
+                            {formatOccurrences(a.acceptedOccurrences.filter((k) => !a.occurrences.includes(k)))}
+                          </Typography>
+                        )}
+
+                        {a.status === "pending" &&
+                          a.occurrences.some((k) => view.job.filledOccurrences.includes(k)) && (
+                            <Alert severity="warning">
+                              Someone is already accepted for some of these dates.
+                            </Alert>
+                          )}
+
+                        {a.message && (
+                          <Typography variant="body2" color="text.secondary">
+                            “{a.message}”
+                          </Typography>
+                        )}
+
+                        {a.status === "pending" && (
+                          <Stack direction="row" spacing={1}>
+                            <Button
+                              variant="contained"
+                              onClick={() => onDecide(a, "accepted")}
+                              disabled={busyId === a.id}
+                              fullWidth
+                            >
+                              Accept
+                            </Button>
+                            <Button
+                              variant="outlined"
+                              color="error"
+                              onClick={() => onDecide(a, "declined")}
+                              disabled={busyId === a.id}
+                              fullWidth
+                            >
+                              Decline
+                            </Button>
+                          </Stack>
+                        )}
+
+                        <Button
+                          variant="text"
+                          startIcon={<ChatIcon />}
+                          onClick={() => onMessage(a)}
+                          disabled={busyId === a.id}
+                          sx={{ alignSelf: "flex-start" }}
+                        >
+                          Message
+                        </Button>
+                      </Stack>
+                    </Paper>
+                  ))}
+                </Stack>
+              )}
+            </>
+          )}
+        </Stack>
+      </Paper>
+
+      <Snackbar
+        open={snack.open}
+        autoHideDuration={2200}
+        onClose={() => setSnack((s) => ({ ...s, open: false }))}
+        message={snack.msg}
+      />
+    </>
+  );
+}
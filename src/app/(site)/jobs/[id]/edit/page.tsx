@@ -0,0 +1,172 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import Link from "next/link";
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Paper,
+  Stack,
+  Typography,
+} from "@mui/material";
+import ArrowBackIcon from "@mui/icons-material/ArrowBack";
+
+import { RequireAuth } from "../../../../../components/RequireAuth";
+import { useAuth } from "../../../../../context/AuthContext";
+import { getJob, getJobContact, updateJob } from "../../../../../firebase/jobs";
+import { getSuspension } from "../../../../../firebase/moderation";
+import { saveJobPhotos } from "../../../../../firebase/photos";
+import type { Job } from "../../../../../types/job";
+import type { Suspension } from "../../../../../types/moderation";
+import { geocodeZip } from "../../../../../utils/geo";
+import {
+  JobForm,
+  jobFieldsFromForm,
+  jobFormValuesFromJob,
+  type JobFormValues,
+} from "../../../../../components/JobForm";
+
+type EditState =
+  | { state: "loading" }
+  | { state: "error"; message: string }
+  | { state: "forbidden" }
+  | { state: "suspended"; suspension: Suspension }
+  | { state: "ok"; job: Job; values: JobFormValues };
+
+export default function EditJobPage() {
+  return (
+    <RequireAuth>
+      <EditJobInner />
+    </RequireAuth>
+  );
+}
+
+function EditJobInner() {
+  const params = useParams<{ id: string }>();
+  const id = params?.id;
+  const router = useRouter();
+  const { user } = useAuth();
+  const uid = user!.uid;
+
+  const [edit, setEdit] = useState<EditState>({ state: "loading" });
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        if (!id) {
+          setEdit({ state: "error", message: "Missing job id." });
+          return;
+        }
+
+        const [job, suspension] = await Promise.all([
+          getJob(id),
+          // Rules refuse the write anyway, so a failed check just lets the form show
+          getSuspension(uid).catch(() => null),
+        ]);
+        if (cancelled) return;
+
+        if (!job) {
+          setEdit({ state: "error", message: "Job not found." });
+          return;
+        }
+
+        if (job.userId !== uid) {
+          setEdit({ state: "forbidden" });
+          return;
+        }
+
+        if (suspension) {
+          setEdit({ state: "suspended", suspension });
+          return;
+        }
+
+        const contact = await getJobContact(id);
+        if (cancelled) return;
+
+        setEdit({ state: "ok", job, values: jobFormValuesFromJob(job, contact) });
+      } catch (e) {
+        if (!cancelled)
+          setEdit({
+            state: "error",
+            message: e instanceof Error ? e.message : "Failed to load job.",
+          });
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id, uid]);
+
+  const onSubmit = async (values: JobFormValues) => {
+    if (!id || edit.state !== "ok") return;
+    if (edit.job.userId !== uid) throw new Error("You can only edit your own jobs.");
+
+    const fields = jobFieldsFromForm(values);
+
+    // Only hit the geocoder when the ZIP actually moved
+    const zipChanged = fields.zip !== edit.job.zip.trim();
+    const coords = zipChanged ? await geocodeZip(fields.zip) : undefined;
+
+    await updateJob(id, fields, coords);
+
+    const { failed } = await saveJobPhotos(id, edit.job.photos, values.photos, values.newPhotos);
+    if (failed) window.alert(`Saved, but ${failed} photo(s) couldn't be uploaded.`);
+
+    router.push(`/jobs/${id}`);
+  };
+
+  if (edit.state === "ok") {
+    return (
+      <JobForm
+        heading="Edit Job"
+        initialValues={edit.values}
+        submitLabel="Save changes"
+        submittingLabel="Saving..."
+        errorMessage="Failed to save job."
+        onSubmit={onSubmit}
+      />
+    );
+  }
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      <Stack spacing={2}>
+        <Link href={id ? `/jobs/${id}` : "/jobs"} style={{ textDecoration: "none" }}>
+          <Button startIcon={<ArrowBackIcon />} variant="text">
+            Back to Job
+          </Button>
+        </Link>
+
+        {edit.state === "loading" && (
+          <Stack direction="row" spacing={2} alignItems="center">
+            <CircularProgress size={22} />
+            <Typography>Loading job...</Typography>
+          </Stack>
+        )}
+
+        {edit.state === "error" && <Alert severity="error">{edit.message}</Alert>}
+
+        {edit.state === "forbidden" && (
+          <Alert severity="warning">Only the person who posted this job can edit it.</Alert>
+        )}
+
+        {edit.state === "suspended" && (
+          <Alert severity="error">
+            Your account is suspended and can’t edit jobs.
+            {edit.suspension.reason && (
+              <Box component="span" sx={{ display: "block", mt: 1 }}>
+                Reason: {edit.suspension.reason}
+              </Box>
+            )}
+          </Alert>
+        )}
+      </Stack>
+    </Paper>
+  );
+}
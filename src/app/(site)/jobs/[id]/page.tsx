@@ -3,6 +3,7 @@
 import { useEffect, useMemo, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
 import Link from "next/link";
+import { FirebaseError } from "firebase/app";
 import {
   Alert,
   Box,
@@ -16,62 +17,29 @@ import {
 } from "@mui/material";
 import ArrowBackIcon from "@mui/icons-material/ArrowBack";
 import DeleteIcon from "@mui/icons-material/Delete";
-
-import { db } from "../../../../firebase/firebase";
-import { doc, getDoc, deleteDoc } from "firebase/firestore";
+import EditIcon from "@mui/icons-material/Edit";
+import ContentCopyIcon from "@mui/icons-material/ContentCopy";
+import ChatIcon from "@mui/icons-material/Chat";
+import PeopleIcon from "@mui/icons-material/People";
+
+import { JobContactCard } from "../../../../components/JobContactCard";
+import { JobInterest } from "../../../../components/JobInterest";
+import { BookmarkButton, useBookmarks } from "../../../../components/BookmarkButton";
+import { JobCategoryChip } from "../../../../components/JobCategoryChip";
+import { JobPhotoGallery } from "../../../../components/JobPhotoGallery";
+import { JobReviews } from "../../../../components/JobReviews";
+import { JobSchedule } from "../../../../components/JobSchedule";
+import { JobStatusActions } from "../../../../components/JobStatusActions";
+import { JobStatusChip } from "../../../../components/JobStatusChip";
+import { UserLink } from "../../../../components/UserLink";
 import { useAuth } from "../../../../context/AuthContext";
-
-type JobDoc = {
-  userId?: string;
-  title?: string;
-  description?: string;
-  address?: string;
-  zip?: string;
-
-  // Contact (new)
-  contactEmail?: string;
-  contactPhone?: string;
-
-  tip?: number;
-  pay?: number; // legacy
-
-  standingOffer?: boolean;
-  endDate?: any;
-  creationDate?: any;
-
-  location?:
-    | { latitude: number; longitude: number }
-    | { lat: number; lng: number }
-    | any;
-  latitude?: number;
-  longitude?: number;
-  lat?: number;
-  lng?: number;
-};
-
-const normalize = (s: unknown) => (typeof s === "string" ? s.trim() : "");
-
-function tsToDate(ts: any): Date | null {
-  try {
-    if (!ts) return null;
-    if (typeof ts.toDate === "function") return ts.toDate();
-    if (ts instanceof Date) return ts;
-    return null;
-  } catch {
-    return null;
-  }
-}
-
-function tipOf(job: JobDoc): number {
-  const t = typeof job.tip === "number" ? job.tip : undefined;
-  const p = typeof job.pay === "number" ? job.pay : undefined;
-  return t ?? p ?? 0;
-}
-
-function formatMoney(n: number) {
-  if (!Number.isFinite(n)) return "";
-  return n.toLocaleString(undefined, { style: "currency", currency: "USD" });
-}
+import { startConversation } from "../../../../firebase/conversations";
+import { deleteJob, getJob } from "../../../../firebase/jobs";
+import { getUserProfile } from "../../../../firebase/users";
+import type { Job } from "../../../../types/job";
+import { formatAddress, formatMoney } from "../../../../utils/format";
+import { describeRecurrence } from "../../../../utils/recurrence";
+import { lastFeedHref } from "../feed-state";
 
 export default function JobDetailsPage() {
   const params = useParams<{ id: string }>();
@@ -79,21 +47,27 @@ export default function JobDetailsPage() {
   const router = useRouter();
   const { user } = useAuth();
 
-  const [job, setJob] = useState<JobDoc | null>(null);
+  const [job, setJob] = useState<Job | null>(null);
   const [loading, setLoading] = useState(true);
   const [err, setErr] = useState<string | null>(null);
 
   const [busyDelete, setBusyDelete] = useState(false);
+  const [busyMessage, setBusyMessage] = useState(false);
   const [snack, setSnack] = useState<{ open: boolean; msg: string }>({
     open: false,
     msg: "",
   });
 
+  const bookmarks = useBookmarks(user?.uid ?? null);
+
   const isOwner = useMemo(() => {
     if (!user || !job) return false;
     return job.userId === user.uid;
   }, [user, job]);
 
+  // Rules refuse hidden jobs to everyone but their poster and moderators
+  const [takenDown, setTakenDown] = useState(false);
+
   useEffect(() => {
     let cancelled = false;
 
@@ -101,26 +75,29 @@ export default function JobDetailsPage() {
       try {
         setLoading(true);
         setErr(null);
+        setTakenDown(false);
 
         if (!id) {
           setErr("Missing job id.");
           return;
         }
 
-        const ref = doc(db, "jobs", id);
-        const snap = await getDoc(ref);
+        const found = await getJob(id);
 
         if (cancelled) return;
 
-        if (!snap.exists()) {
+        if (!found) {
           setErr("Job not found.");
           setJob(null);
           return;
         }
 
-        setJob(snap.data() as JobDoc);
+        setJob(found);
       } catch (e: any) {
-        if (!cancelled) setErr(e?.message ?? "Failed to load job.");
+        if (cancelled) return;
+        // Deleted jobs come back as not found; a denial is a job a moderator hid
+        if (e instanceof FirebaseError && e.code === "permission-denied") setTakenDown(true);
+        else setErr(e?.message ?? "Failed to load job.");
       } finally {
         if (!cancelled) setLoading(false);
       }
@@ -138,7 +115,7 @@ export default function JobDetailsPage() {
 
     setBusyDelete(true);
     try {
-      await deleteDoc(doc(db, "jobs", id));
+      await deleteJob(id);
       setSnack({ open: true, msg: "Job deleted." });
       router.push("/my-jobs");
     } catch (e: any) {
@@ -148,15 +125,46 @@ export default function JobDetailsPage() {
     }
   };
 
-  const contactEmail = normalize(job?.contactEmail);
-  const contactPhone = normalize(job?.contactPhone);
-  const hasContact = !!contactEmail || !!contactPhone;
+  const onToggleBookmark = async () => {
+    if (!job) return;
+    if (!user) {
+      setSnack({ open: true, msg: "Log in to save jobs." });
+      return;
+    }
+
+    const saved = bookmarks.has(job.id);
+    try {
+      if (saved) await bookmarks.unsave(job.id);
+      else await bookmarks.save(job);
+      setSnack({ open: true, msg: saved ? "Removed from Saved." : "Saved to your Saved jobs." });
+    } catch (e) {
+      setSnack({ open: true, msg: e instanceof Error ? e.message : "Failed to update saved jobs." });
+    }
+  };
+
+  const onMessage = async () => {
+    if (!job) return;
+    if (!user) {
+      router.push("/login");
+      return;
+    }
+
+    setBusyMessage(true);
+    try {
+      const profile = await getUserProfile(user.uid);
+      const id = await startConversation(job, user.uid, profile?.name || user.displayName || "");
+      router.push(`/inbox/${id}`);
+    } catch (e) {
+      setSnack({ open: true, msg: e instanceof Error ? e.message : "Failed to open conversation." });
+      setBusyMessage(false);
+    }
+  };
 
   return (
     <>
       <Paper sx={{ p: 3 }}>
         <Stack spacing={2}>
-          <Link href="/jobs" style={{ textDecoration: "none" }}>
+          <Link href={lastFeedHref()} style={{ textDecoration: "none" }}>
             <Button startIcon={<ArrowBackIcon />} variant="text">
               Back to Jobs
             </Button>
@@ -171,22 +179,45 @@ export default function JobDetailsPage() {
 
           {!loading && err && <Alert severity="error">{err}</Alert>}
 
-          {!loading && !err && job && (
+          {!loading && !err && takenDown && (
+            <Alert severity="warning">A moderator took this job down.</Alert>
+          )}
+
+          {!loading && !err && job && !takenDown && (
             <>
+              {job.moderation && (
+                <Alert severity="warning">
+                  Hidden by a moderator{job.moderation.reason ? `: ${job.moderation.reason}` : "."} It
+                  doesn’t show in the feed or search.
+                </Alert>
+              )}
+
               <Stack spacing={0.5}>
-                <Typography variant="h5" fontWeight={900}>
-                  {job.title ?? "Untitled job"}
-                </Typography>
+                <Stack direction="row" spacing={1} alignItems="center">
+                  <Typography variant="h5" fontWeight={900}>
+                    {job.title || "Untitled job"}
+                  </Typography>
+                  <JobStatusChip status={job.status} />
+                  <JobCategoryChip job={job} />
+                  <Box sx={{ ml: "auto" }}>
+                    <BookmarkButton saved={bookmarks.has(job.id)} onToggle={onToggleBookmark} />
+                  </Box>
+                </Stack>
 
                 <Typography variant="body2" color="text.secondary">
-                  {normalize(job.address)
-                    ? `${normalize(job.address)}${
-                        normalize(job.zip) ? ` • ${normalize(job.zip)}` : ""
-                      }`
-                    : normalize(job.zip)}
+                  {formatAddress(job.address, job.zip)}
                 </Typography>
+
+                <Stack direction="row" spacing={1} alignItems="center">
+                  <Typography variant="body2" color="text.secondary">
+                    Posted by
+                  </Typography>
+                  <UserLink uid={job.userId} fallback="the poster" />
+                </Stack>
               </Stack>
 
+              <JobPhotoGallery photos={job.photos} />
+
               <Box
                 sx={{
                   p: 2,
@@ -198,7 +229,7 @@ export default function JobDetailsPage() {
                 <Stack direction="row" justifyContent="space-between">
                   <Typography fontWeight={800}>Tip</Typography>
                   <Typography fontWeight={900}>
-                    {formatMoney(tipOf(job))}
+                    {formatMoney(job.tip)}
                   </Typography>
                 </Stack>
 
@@ -206,61 +237,111 @@ export default function JobDetailsPage() {
 
                 <Stack spacing={0.5}>
                   <Typography variant="body2" color="text.secondary">
-                    {job.standingOffer
+                    {job.recurrence
+                      ? describeRecurrence(job.recurrence)
+                      : job.standingOffer
                       ? "Standing offer"
-                      : tsToDate(job.endDate)
-                      ? `Ends ${tsToDate(job.endDate)!.toLocaleDateString()}`
+                      : job.endDate
+                      ? `Ends ${job.endDate.toLocaleDateString()}`
                       : "No end date"}
                   </Typography>
                   <Typography variant="body2" color="text.secondary">
-                    {tsToDate(job.creationDate)
-                      ? `Posted ${tsToDate(job.creationDate)!.toLocaleDateString()}`
+                    {job.creationDate
+                      ? `Posted ${job.creationDate.toLocaleDateString()}`
                       : "Posted"}
                   </Typography>
+                  {job.updatedAt && (
+                    <Typography variant="body2" color="text.secondary">
+                      {`Updated ${job.updatedAt.toLocaleDateString()}`}
+                    </Typography>
+                  )}
+                  {isOwner && job.duplicatedFrom && (
+                    <Link href={`/jobs/${job.duplicatedFrom}`} style={{ color: "inherit" }}>
+                      <Typography variant="body2" color="text.secondary">
+                        Posted again from an earlier job
+                      </Typography>
+                    </Link>
+                  )}
                 </Stack>
               </Box>
 
-              {/* Contact section (new) */}
-              <Paper variant="outlined" sx={{ p: 2, borderRadius: 3 }}>
-                <Typography fontWeight={800} sx={{ mb: 1 }}>
-                  Contact
-                </Typography>
+              <JobSchedule job={job} />
 
-                {hasContact ? (
-                  <Stack spacing={0.75}>
-                    {contactEmail && (
-                      <Typography variant="body2" color="text.secondary">
-                        Email:{" "}
-                        <a href={`mailto:${contactEmail}`}>{contactEmail}</a>
-                      </Typography>
-                    )}
-                    {contactPhone && (
-                      <Typography variant="body2" color="text.secondary">
-                        Phone:{" "}
-                        <a href={`tel:${contactPhone}`}>{contactPhone}</a>
-                      </Typography>
-                    )}
-                  </Stack>
-                ) : (
-                  <Typography variant="body2" color="text.secondary">
-                    No contact info provided.
-                  </Typography>
-                )}
-              </Paper>
+              <JobContactCard job={job} />
 
-              {normalize(job.description) && (
+              {job.description.trim() && (
                 <Box>
                   <Typography fontWeight={800} sx={{ mb: 1 }}>
                     Description
                   </Typography>
                   <Typography color="text.secondary">
-                    {normalize(job.description)}
+                    {job.description.trim()}
                   </Typography>
                 </Box>
               )}
 
+              {!isOwner && <JobInterest job={job} />}
+
+              <JobReviews job={job} />
+
+              {!isOwner && (
+                <Button
+                  variant="outlined"
+                  size="large"
+                  startIcon={<ChatIcon />}
+                  onClick={onMessage}
+                  disabled={busyMessage}
+                  fullWidth
+                >
+                  {busyMessage ? "Opening..." : "Message poster"}
+                </Button>
+              )}
+
               {isOwner && (
-                <Box sx={{ pt: 1 }}>
+                <Stack spacing={1.5} sx={{ pt: 1 }}>
+                  <JobStatusActions
+                    job={job}
+                    size="large"
+                    onChanged={(next) => {
+                      setJob(next);
+                      setSnack({ open: true, msg: "Status updated." });
+                    }}
+                    onError={(msg) => setSnack({ open: true, msg })}
+                  />
+
+                  <Link href={`/jobs/${id}/applicants`} style={{ textDecoration: "none" }}>
+                    <Button
+                      variant="contained"
+                      size="large"
+                      startIcon={<PeopleIcon />}
+                      fullWidth
+                    >
+                      View applicants
+                    </Button>
+                  </Link>
+
+                  <Link href={`/jobs/${id}/edit`} style={{ textDecoration: "none" }}>
+                    <Button
+                      variant="outlined"
+                      size="large"
+                      startIcon={<EditIcon />}
+                      fullWidth
+                    >
+                      Edit job
+                    </Button>
+                  </Link>
+
+                  <Link href={`/jobs/new?from=${id}`} style={{ textDecoration: "none" }}>
+                    <Button
+                      variant="outlined"
+                      size="large"
+                      startIcon={<ContentCopyIcon />}
+                      fullWidth
+                    >
+                      Post again
+                    </Button>
+                  </Link>
+
                   <Button
                     color="error"
                     variant="contained"
@@ -272,7 +353,7 @@ export default function JobDetailsPage() {
                   >
                     {busyDelete ? "Deleting..." : "Delete job"}
                   </Button>
-                </Box>
+                </Stack>
               )}
             </>
           )}
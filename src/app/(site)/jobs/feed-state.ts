@@ -0,0 +1,40 @@
+import type { Job } from "../../../types/job";
+import type { JobCursor, NearbyJob } from "../../../firebase/jobs";
+import type { LatLng } from "../../../utils/geo";
+
+/**
+ * What the feed had on screen, kept in memory so "Back to Jobs" can put
+ * everything back (loaded pages, origin, scroll) without refetching.
+ * Keyed by query string: a different link starts fresh.
+ */
+export type FeedSnapshot = {
+  key: string;
+  loadedKey: string;
+  jobs: Job[];
+  cursor: JobCursor | null;
+  hasMore: boolean;
+  nearby: NearbyJob[] | null;
+  nearbyShown: number;
+  origin: LatLng | null;
+  originSource: "geo" | "zip" | null;
+  scrollY: number;
+};
+
+let snapshot: FeedSnapshot | null = null;
+
+export function readFeedSnapshot(key: string): FeedSnapshot | null {
+  return snapshot && snapshot.key === key ? snapshot : null;
+}
+
+export function saveFeedSnapshot(next: Omit<FeedSnapshot, "scrollY">) {
+  snapshot = { ...next, scrollY: snapshot?.key === next.key ? snapshot.scrollY : 0 };
+}
+
+export function saveFeedScroll(scrollY: number) {
+  if (snapshot) snapshot.scrollY = scrollY;
+}
+
+/** Where "Back to Jobs" should go: the feed as it was last left. */
+export function lastFeedHref(): string {
+  return snapshot?.key ? `/jobs?${snapshot.key}` : "/jobs";
+}
@@ -1,33 +1,36 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { Suspense, useEffect, useRef, useState } from "react";
 import Link from "next/link";
-import { useRouter } from "next/navigation";
-import {
-  Alert,
-  Box,
-  Button,
-  FormControlLabel,
-  Paper,
-  Snackbar,
-  Stack,
-  Switch,
-  TextField,
-  Typography,
-} from "@mui/material";
+import { useRouter, useSearchParams } from "next/navigation";
+import { Alert, Box, Button, Paper, Stack, Typography } from "@mui/material";
 import { RequireAuth } from "../../../../components/RequireAuth";
 import { useAuth } from "../../../../context/AuthContext";
-import { db } from "../../../../firebase/firebase";
+import { VerifyEmailButtons } from "../../../../components/VerifyEmail";
 import {
-  addDoc,
-  collection,
-  doc,
-  getDoc,
-  serverTimestamp,
-  Timestamp,
-} from "firebase/firestore";
-import type { UserProfile } from "../../../../types/userProfile";
+  deleteJobDraft,
+  listJobDrafts,
+  newJobDraftId,
+  saveJobDraft,
+} from "../../../../firebase/jobDrafts";
+import { createJob, getJob, getJobContact } from "../../../../firebase/jobs";
+import { getSuspension } from "../../../../firebase/moderation";
+import { saveJobPhotos } from "../../../../firebase/photos";
+import { getUserProfile, missingProfileFields } from "../../../../firebase/users";
+import type { JobDraft } from "../../../../types/jobDraft";
+import type { Suspension } from "../../../../types/moderation";
 import { geocodeZip } from "../../../../utils/geo";
+import {
+  JobForm,
+  draftFieldsFromForm,
+  duplicateJobFormValues,
+  emptyJobFormValues,
+  jobFieldsFromForm,
+  jobFormValuesFromDraft,
+  type JobFormValues,
+} from "../../../../components/JobForm";
+
+const AUTOSAVE_MS = 1000;
 
 type ProfileStatus =
   | { state: "loading" }
@@ -35,108 +38,94 @@ type ProfileStatus =
   | { state: "incomplete"; missingFields: string[] }
   | { state: "ok" };
 
-function isNonEmpty(s: unknown) {
-  return typeof s === "string" && s.trim().length > 0;
-}
-
-function todayISO() {
-  const d = new Date();
-  const yyyy = d.getFullYear();
-  const mm = String(d.getMonth() + 1).padStart(2, "0");
-  const dd = String(d.getDate()).padStart(2, "0");
-  return `${yyyy}-${mm}-${dd}`;
-}
+/** `?from=<jobId>` ("Post again") prefills the form from one of your earlier jobs. */
+type SourceJob =
+  | { state: "none" }
+  | { state: "loading" }
+  | { state: "error"; message: string }
+  | { state: "ok"; jobId: string; values: JobFormValues };
 
 export default function NewJobPage() {
+  // useSearchParams needs a Suspense boundary for the static build
   return (
-    <RequireAuth>
-      <NewJobInner />
-    </RequireAuth>
+    <Suspense fallback={null}>
+      <RequireAuth>
+        <NewJobInner />
+      </RequireAuth>
+    </Suspense>
   );
 }
 
 function NewJobInner() {
   const router = useRouter();
-  const { user } = useAuth();
+  const searchParams = useSearchParams();
+  const from = searchParams.get("from");
+  const draftParam = searchParams.get("draft"); // "Continue" from the drafts in My Jobs
+  const { user, emailVerified } = useAuth();
   const uid = user!.uid;
 
+  const [source, setSource] = useState<SourceJob>(from ? { state: "loading" } : { state: "none" });
+
+  // Drafts: everything typed is autosaved to draftId; older drafts can be resumed
+  const [drafts, setDrafts] = useState<JobDraft[] | null>(null);
+  const [resumed, setResumed] = useState<JobDraft | null>(null);
+  const [promptDismissed, setPromptDismissed] = useState(false);
+  const [draftId, setDraftId] = useState(() => draftParam ?? newJobDraftId(uid));
+  const [draftError, setDraftError] = useState<string | null>(null);
+  const [edited, setEdited] = useState<JobFormValues | null>(null);
+  const [savedAt, setSavedAt] = useState<Date | null>(null);
+  const [formKey, setFormKey] = useState(0); // bump to restart the form from initialValues
+  const savingRef = useRef<Promise<void>>(Promise.resolve());
+  const publishingRef = useRef(false);
+  const autosaveRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
   const [profileAddress, setProfileAddress] = useState("");
   const [profileZip, setProfileZip] = useState("");
   const [profilePhone, setProfilePhone] = useState("");
 
-  // Profile gate (like mobile app: require profile info before posting)
-  const [profileStatus, setProfileStatus] = useState<ProfileStatus>({
-    state: "loading",
-  });
-
-  // Form fields
-  const [title, setTitle] = useState("");
-  const [description, setDescription] = useState("");
-  const [address, setAddress] = useState("");
-  const [zip, setZip] = useState("");
+  // Suspended accounts can't post; undefined while checking
+  const [suspension, setSuspension] = useState<Suspension | null | undefined>(undefined);
 
-  // Contact fields (new)
-  const [contactEmail, setContactEmail] = useState("");
-  const [contactPhone, setContactPhone] = useState("");
-
-  const [tipText, setTipText] = useState(""); // keep as string for input
-  const tipValue = useMemo(() => Number(tipText), [tipText]);
-
-  const [standingOffer, setStandingOffer] = useState(false);
-  const [endDate, setEndDate] = useState(""); // YYYY-MM-DD
-
-  const [submitting, setSubmitting] = useState(false);
-  const [formError, setFormError] = useState<string | null>(null);
-
-  const [snack, setSnack] = useState<{
-    open: boolean;
-    msg: string;
-    severity: "success" | "error";
-  }>({ open: false, msg: "", severity: "success" });
-
-  const canPost = profileStatus.state === "ok";
-
-  // Prefill contact email from auth (once)
   useEffect(() => {
-    if (!user) return;
-    setContactEmail((prev) => (prev.trim().length ? prev : user.email ?? ""));
-  }, [user]);
+    let cancelled = false;
+
+    // Rules refuse the write anyway, so a failed check just lets the form show
+    getSuspension(uid)
+      .then((s) => {
+        if (!cancelled) setSuspension(s);
+      })
+      .catch(() => {
+        if (!cancelled) setSuspension(null);
+      });
 
-  // Autofill once, but don't overwrite if user already typed something
-  useEffect(() => {
-    if (profileStatus.state === "ok") {
-      setAddress((prev) => (prev.trim().length ? prev : profileAddress));
-      setZip((prev) => (prev.trim().length ? prev : profileZip));
+    return () => {
+      cancelled = true;
+    };
+  }, [uid]);
 
-      // Prefill contact phone from profile (once)
-      setContactPhone((prev) => (prev.trim().length ? prev : profilePhone));
-    }
-  }, [profileStatus.state, profileAddress, profileZip, profilePhone]);
+  // Profile gate (like mobile app: require profile info before posting)
+  const [profileStatus, setProfileStatus] = useState<ProfileStatus>({
+    state: "loading",
+  });
 
   useEffect(() => {
     let active = true;
 
     (async () => {
       try {
-        const ref = doc(db, "users", uid);
-        const snap = await getDoc(ref);
+        const p = await getUserProfile(uid);
         if (!active) return;
 
-        if (!snap.exists()) {
+        if (!p) {
           setProfileStatus({ state: "missing" });
           return;
         }
 
-        const p = snap.data() as Partial<UserProfile>;
-        const missing: string[] = [];
-        if (!isNonEmpty(p.name)) missing.push("name");
-        if (!isNonEmpty(p.phone)) missing.push("phone");
-        if (!isNonEmpty(p.address)) missing.push("address");
-        if (!isNonEmpty(p.zip)) missing.push("zip");
+        const missing = missingProfileFields(p);
 
-        setProfileAddress(p.address ?? "");
-        setProfileZip(p.zip ?? "");
-        setProfilePhone(p.phone ?? "");
+        setProfileAddress(p.address);
+        setProfileZip(p.zip);
+        setProfilePhone(p.phone);
 
         if (missing.length)
           setProfileStatus({ state: "incomplete", missingFields: missing });
@@ -152,92 +141,169 @@ function NewJobInner() {
     };
   }, [uid]);
 
-  const validate = (): string | null => {
-    if (!canPost) return "Please complete your Profile before posting a job.";
-    if (!title.trim()) return "Title is required.";
-    if (!address.trim()) return "Address is required.";
-    if (!zip.trim()) return "ZIP is required.";
-
-    // Contact rule (new): at least one contact method
-    const email = contactEmail.trim();
-    const phone = contactPhone.trim();
-    if (!email && !phone)
-      return "Please provide at least one contact method: email or phone.";
-
-    if (!tipText.trim()) return "Tip is required.";
-    if (Number.isNaN(tipValue)) return "Tip must be a number.";
-    if (tipValue <= 0) return "Tip must be greater than 0.";
-
-    if (!standingOffer) {
-      if (!endDate) return "Choose an End Date or enable Standing Offer.";
-      const chosen = new Date(endDate + "T00:00:00");
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      if (chosen < today) return "End Date cannot be in the past.";
-    }
+  useEffect(() => {
+    if (!from) return;
+    let cancelled = false;
 
-    return null;
-  };
+    (async () => {
+      try {
+        const job = await getJob(from);
+        if (cancelled) return;
+
+        if (!job || job.userId !== uid) {
+          setSource({
+            state: "error",
+            message: "Couldn’t find that job to copy. Start from scratch below.",
+          });
+          return;
+        }
 
-  const onSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setFormError(null);
+        const contact = await getJobContact(from);
+        if (!cancelled)
+          setSource({ state: "ok", jobId: from, values: duplicateJobFormValues(job, contact) });
+      } catch (e) {
+        if (!cancelled)
+          setSource({
+            state: "error",
+            message: e instanceof Error ? e.message : "Failed to load the job to copy.",
+          });
+      }
+    })();
 
-    const err = validate();
-    if (err) {
-      setFormError(err);
-      return;
-    }
+    return () => {
+      cancelled = true;
+    };
+  }, [from, uid]);
 
-    setSubmitting(true);
-    try {
-      const endDateTs = standingOffer
-        ? null
-        : Timestamp.fromDate(new Date(endDate + "T00:00:00"));
+  useEffect(() => {
+    let cancelled = false;
 
-      // Geocode ZIP -> store coords for distance sorting/filtering
-      const coords = await geocodeZip(zip.trim());
+    (async () => {
+      try {
+        const list = await listJobDrafts(uid);
+        if (cancelled) return;
+        setDrafts(list);
+
+        if (draftParam) {
+          const found = list.find((d) => d.id === draftParam);
+          if (found) setResumed(found);
+          else {
+            // Autosaving under the old id would bring the draft back
+            setDraftId(newJobDraftId(uid));
+            setDraftError("That draft was already posted or discarded.");
+          }
+        }
+      } catch (e) {
+        if (cancelled) return;
+        // Drafts are a convenience; posting still works without them. The
+        // requested draft wasn't loaded, so don't autosave over it either.
+        setDrafts([]);
+        if (draftParam) setDraftId(newJobDraftId(uid));
+        setDraftError(e instanceof Error ? e.message : "Failed to load your drafts.");
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [uid, draftParam]);
+
+  const initialValues: JobFormValues = resumed
+    ? jobFormValuesFromDraft(resumed.fields)
+    : source.state === "ok"
+    ? source.values
+    : {
+        ...emptyJobFormValues,
+        address: profileAddress,
+        zip: profileZip,
+        contactEmail: user?.email ?? "",
+        contactPhone: profilePhone,
+      };
+  const duplicatedFrom = resumed
+    ? resumed.duplicatedFrom
+    : source.state === "ok"
+    ? source.jobId
+    : null;
+
+  // Only what the poster typed counts; an untouched prefilled form isn't a draft
+  const baseline = JSON.stringify(draftFieldsFromForm(initialValues));
+  const current = edited ? JSON.stringify(draftFieldsFromForm(edited)) : baseline;
+  const dirty = current !== baseline;
 
-      const docRef = await addDoc(collection(db, "jobs"), {
-        userId: uid,
-        title: title.trim(),
-        description: description.trim() || "",
+  useEffect(() => {
+    if (!edited || !dirty || publishingRef.current) return;
+
+    const t = setTimeout(() => {
+      // The job may have been posted while this save was waiting
+      if (publishingRef.current) return;
+      savingRef.current = saveJobDraft(uid, draftId, draftFieldsFromForm(edited), duplicatedFrom)
+        .then(() => setSavedAt(new Date()))
+        .catch(() => {});
+    }, AUTOSAVE_MS);
+    autosaveRef.current = t;
+    return () => clearTimeout(t);
+  }, [edited, dirty, uid, draftId, duplicatedFrom]);
+
+  const offered =
+    !from && !draftParam && !resumed && !promptDismissed && !dirty ? drafts?.[0] : undefined;
+
+  const onResume = (draft: JobDraft) => {
+    setResumed(draft);
+    setDraftId(draft.id);
+    setSavedAt(draft.updatedAt);
+    setEdited(null);
+    setFormKey((k) => k + 1);
+  };
 
-        address: address.trim(),
-        zip: zip.trim(),
+  const onDiscardDraft = async (id: string) => {
+    try {
+      await savingRef.current;
+      await deleteJobDraft(uid, id);
+      setDrafts((prev) => prev?.filter((d) => d.id !== id) ?? null);
+    } catch (e) {
+      setDraftError(e instanceof Error ? e.message : "Failed to discard draft.");
+      return;
+    }
 
-        // Contact info (new)
-        ...(contactEmail.trim() ? { contactEmail: contactEmail.trim() } : {}),
-        ...(contactPhone.trim() ? { contactPhone: contactPhone.trim() } : {}),
+    // Discarding the draft being edited starts the form over
+    if (id === draftId) {
+      setResumed(null);
+      setDraftId(newJobDraftId(uid));
+      setSavedAt(null);
+      setEdited(null);
+      setFormKey((k) => k + 1);
+    }
+  };
 
-        // Prefer one consistent coordinate shape that your feed already supports
-        ...(coords ? { location: { lat: coords.lat, lng: coords.lng } } : {}),
+  const onSubmit = async (values: JobFormValues) => {
+    // Geocode ZIP -> store coords for distance sorting/filtering
+    const coords = await geocodeZip(values.zip.trim());
 
-        tip: tipValue,
-        standingOffer: !!standingOffer,
-        endDate: endDateTs,
-        creationDate: serverTimestamp(),
-      });
+    const jobId = await createJob(uid, jobFieldsFromForm(values), coords, duplicatedFrom);
 
-      setSnack({ open: true, msg: "Job posted.", severity: "success" });
+    // Posted: stop autosaving and let any save in flight land before removing the draft
+    publishingRef.current = true;
+    clearTimeout(autosaveRef.current);
+    await savingRef.current;
+    await deleteJobDraft(uid, draftId).catch(() => {});
 
-      // Redirect to newly created job page
-      router.push(`/jobs/${docRef.id}`);
-    } catch (e: any) {
-      setSnack({
-        open: true,
-        msg: e?.message ?? "Failed to post job.",
-        severity: "error",
-      });
-      setSubmitting(false);
-      return;
-    } finally {
-      setSubmitting(false);
+    // Photos need the job to exist (storage rules check its owner)
+    if (values.newPhotos.length) {
+      const { failed } = await saveJobPhotos(jobId, [], [], values.newPhotos);
+      if (failed) window.alert(`Job posted, but ${failed} photo(s) couldn't be uploaded. You can add them from Edit.`);
     }
+
+    // Redirect to newly created job page
+    router.push(`/jobs/${jobId}`);
   };
 
   // Profile gating UI
-  if (profileStatus.state === "loading") {
+  if (
+    profileStatus.state === "loading" ||
+    source.state === "loading" ||
+    drafts === null ||
+    suspension === undefined
+  ) {
     return (
       <Paper sx={{ p: 3 }}>
         <Typography>Loading...</Typography>
@@ -245,6 +311,46 @@ function NewJobInner() {
     );
   }
 
+  if (suspension) {
+    return (
+      <Paper sx={{ p: 3 }}>
+        <Stack spacing={2}>
+          <Typography variant="h5" fontWeight={800}>
+            Post a Job
+          </Typography>
+
+          <Alert severity="error">
+            Your account is suspended and can’t post jobs.
+            {suspension.reason && (
+              <Box component="span" sx={{ display: "block", mt: 1 }}>
+                Reason: {suspension.reason}
+              </Box>
+            )}
+          </Alert>
+        </Stack>
+      </Paper>
+    );
+  }
+
+  // Firestore rules also refuse jobs from unverified accounts; phone-only accounts have no email
+  if (user!.email && !emailVerified) {
+    return (
+      <Paper sx={{ p: 3 }}>
+        <Stack spacing={2}>
+          <Typography variant="h5" fontWeight={800}>
+            Post a Job
+          </Typography>
+
+          <Alert severity="warning">
+            Verify your email before posting. Open the link we sent to {user!.email}.
+          </Alert>
+
+          <VerifyEmailButtons continuePath="/jobs/new" />
+        </Stack>
+      </Paper>
+    );
+  }
+
   if (profileStatus.state === "missing") {
     return (
       <Paper sx={{ p: 3 }}>
@@ -292,130 +398,63 @@ function NewJobInner() {
     );
   }
 
-  const contactValid = !!contactEmail.trim() || !!contactPhone.trim();
-
-  // Normal create job form
+  // Normal create job form, prefilled from a draft, the copied job, or auth + profile
   return (
-    <>
-      <Paper sx={{ p: 3 }}>
-        <Stack spacing={2} component="form" onSubmit={onSubmit}>
-          <Typography variant="h5" fontWeight={800}>
-            Post a Job
-          </Typography>
-
-          {formError && <Alert severity="error">{formError}</Alert>}
-
-          {!contactValid && (
-            <Alert severity="info">
-              Add at least one contact method (email or phone) so people can
-              reach you.
-            </Alert>
-          )}
-
-          <TextField
-            label="Title"
-            value={title}
-            onChange={(e) => setTitle(e.target.value)}
-            required
-            fullWidth
-          />
-
-          <TextField
-            label="Description (optional)"
-            value={description}
-            onChange={(e) => setDescription(e.target.value)}
-            multiline
-            minRows={3}
-            fullWidth
-          />
-
-          <TextField
-            label="Address"
-            value={address}
-            onChange={(e) => setAddress(e.target.value)}
-            required
-            fullWidth
-          />
-
-          <TextField
-            label="ZIP"
-            value={zip}
-            onChange={(e) => setZip(e.target.value)}
-            required
-            fullWidth
-            inputMode="numeric"
-          />
-
-          {/* Contact section (new) */}
-          <Typography fontWeight={800} sx={{ pt: 1 }}>
-            Contact
-          </Typography>
-
-          <TextField
-            label="Email (optional)"
-            value={contactEmail}
-            onChange={(e) => setContactEmail(e.target.value)}
-            fullWidth
-            helperText="Provide email and/or phone. At least one is required."
-          />
-
-          <TextField
-            label="Phone (optional)"
-            value={contactPhone}
-            onChange={(e) => setContactPhone(e.target.value)}
-            fullWidth
-            helperText="Provide email and/or phone. At least one is required."
-          />
-
-          <TextField
-            label="Tip ($)"
-            value={tipText}
-            onChange={(e) => setTipText(e.target.value)}
-            required
-            fullWidth
-            inputMode="decimal"
-          />
-
-          <FormControlLabel
-            control={
-              <Switch
-                checked={standingOffer}
-                onChange={(e) => setStandingOffer(e.target.checked)}
-              />
-            }
-            label="Standing Offer"
-          />
-
-          {!standingOffer && (
-            <TextField
-              label="End Date"
-              type="date"
-              value={endDate}
-              onChange={(e) => setEndDate(e.target.value)}
-              InputLabelProps={{ shrink: true }}
-              inputProps={{ min: todayISO() }}
-              required
-              fullWidth
-            />
-          )}
-
-          <Button
-            type="submit"
-            variant="contained"
-            size="large"
-            disabled={submitting}
-          >
-            {submitting ? "Posting..." : "Post Job"}
-          </Button>
-        </Stack>
-      </Paper>
-
-      <Snackbar
-        open={snack.open}
-        autoHideDuration={2200}
-        onClose={() => setSnack((s) => ({ ...s, open: false }))}
-        message={snack.msg}
+    <Stack spacing={2}>
+      {source.state === "error" && <Alert severity="warning">{source.message}</Alert>}
+
+      {draftError && <Alert severity="warning">{draftError}</Alert>}
+
+      {offered && (
+        <Alert
+          severity="info"
+          action={
+            <Stack direction="row" spacing={1}>
+              <Button color="inherit" size="small" onClick={() => onResume(offered)}>
+                Resume draft
+              </Button>
+              <Button
+                color="inherit"
+                size="small"
+                onClick={() => {
+                  setPromptDismissed(true);
+                  onDiscardDraft(offered.id);
+                }}
+              >
+                Discard
+              </Button>
+            </Stack>
+          }
+        >
+          You have an unfinished job: “{offered.fields.title.trim() || "Untitled draft"}”
+          {offered.updatedAt ? `, saved ${offered.updatedAt.toLocaleString()}` : ""}.
+          {drafts.length > 1 && ` ${drafts.length - 1} more in My Jobs.`}
+        </Alert>
+      )}
+
+      <JobForm
+        key={formKey}
+        heading={source.state === "ok" && !resumed ? "Post Again" : "Post a Job"}
+        initialValues={initialValues}
+        submitLabel="Post Job"
+        submittingLabel="Posting..."
+        errorMessage="Failed to post job."
+        notice={
+          savedAt && (
+            <Stack direction="row" alignItems="center" justifyContent="space-between">
+              <Typography variant="body2" color="text.secondary">
+                Draft saved {savedAt.toLocaleTimeString([], { timeStyle: "short" })}. Photos
+                aren’t kept in drafts.
+              </Typography>
+              <Button size="small" color="error" onClick={() => onDiscardDraft(draftId)}>
+                Discard draft
+              </Button>
+            </Stack>
+          )
+        }
+        onChange={setEdited}
+        onSubmit={onSubmit}
       />
-    </>
+    </Stack>
   );
-}
\ No newline at end of file
+}
@@ -1,10 +1,19 @@
 "use client";
 
-import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  Suspense,
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
 import {
   Alert,
   Box,
   Button,
+  Chip,
   CircularProgress,
   FormControl,
   IconButton,
@@ -15,127 +24,79 @@ import {
   Snackbar,
   Stack,
   TextField,
+  ToggleButton,
+  ToggleButtonGroup,
   Typography,
 } from "@mui/material";
 import RefreshIcon from "@mui/icons-material/Refresh";
 import MyLocationIcon from "@mui/icons-material/MyLocation";
 import LocationSearchingIcon from "@mui/icons-material/LocationSearching";
+import ViewListIcon from "@mui/icons-material/ViewList";
+import MapIcon from "@mui/icons-material/Map";
+import BookmarkAddIcon from "@mui/icons-material/BookmarkAdd";
+import BookmarksIcon from "@mui/icons-material/Bookmarks";
+import dynamic from "next/dynamic";
+import { useRouter, useSearchParams } from "next/navigation";
 
-import type { QueryDocumentSnapshot, DocumentData } from "firebase/firestore";
 import {
-  collection,
-  getDocs,
-  limit,
-  orderBy,
-  query,
-  startAfter,
-} from "firebase/firestore";
-
-import { db } from "../../../firebase/firebase";
+  fetchJobsNear,
+  fetchJobsPage as fetchJobs,
+  type JobCursor,
+  type NearbyJob,
+} from "../../../firebase/jobs";
+import { createSavedSearch, describeSearch } from "../../../firebase/savedSearches";
+import { BookmarkButton, useBookmarks } from "../../../components/BookmarkButton";
+import { JobCard } from "../../../components/JobCard";
+import { SavedJobs } from "../../../components/SavedJobs";
+import { useAuth } from "../../../context/AuthContext";
+import type { Job } from "../../../types/job";
 import {
   geocodeZip,
   haversineMiles,
-  formatMiles,
   type LatLng,
 } from "../../../utils/geo";
-
-import Link from "next/link";
-
-type JobFeedItem = {
-  id: string;
-  userId?: string;
-
-  title?: string;
-  description?: string;
-
-  address?: string;
-  zip?: string;
-
-  tip?: number; // preferred
-  pay?: number; // legacy fallback
-
-  standingOffer?: boolean;
-  endDate?: any; // Firestore Timestamp | null
-  creationDate?: any; // Firestore Timestamp
-
-  // possible coordinate shapes:
-  location?: { latitude: number; longitude: number } | { lat: number; lng: number } | any;
-  latitude?: number;
-  longitude?: number;
-  lat?: number;
-  lng?: number;
-};
-
-type SortMode = "newest" | "tipHigh" | "tipLow" | "distance";
+import { JOB_CATEGORIES, type JobCategory } from "../../../utils/categories";
+import { normalize } from "../../../utils/format";
+import { matchesTerms, searchTerms } from "../../../utils/search";
+import {
+  DEFAULT_RADIUS,
+  RADIUS_OPTIONS,
+  feedQueryString,
+  parseFeedParams,
+  type SortMode,
+  type ViewMode,
+} from "../../../utils/feedParams";
+import { readFeedSnapshot, saveFeedScroll, saveFeedSnapshot } from "./feed-state";
+
+// Leaflet touches `window` on import, so the map only ever renders client-side
+const JobsMap = dynamic(() => import("../../../components/JobsMap"), {
+  ssr: false,
+  loading: () => <CircularProgress size={22} />,
+});
 
 const PAGE_SIZE = 25;
-const normalize = (s: unknown) => (typeof s === "string" ? s.trim() : "");
+const SEARCH_DEBOUNCE_MS = 300;
 
-function tipOf(job: JobFeedItem): number {
-  const t = typeof job.tip === "number" ? job.tip : undefined;
-  const p = typeof job.pay === "number" ? job.pay : undefined;
-  return t ?? p ?? 0;
-}
-
-function formatMoney(n: number) {
-  if (!Number.isFinite(n)) return "";
-  return n.toLocaleString(undefined, { style: "currency", currency: "USD" });
-}
-
-function tsToDate(ts: any): Date | null {
-  try {
-    if (!ts) return null;
-    if (typeof ts.toDate === "function") return ts.toDate();
-    if (ts instanceof Date) return ts;
-    return null;
-  } catch {
-    return null;
-  }
+export default function JobsPage() {
+  // useSearchParams needs a Suspense boundary for the static build
+  return (
+    <Suspense fallback={null}>
+      <JobsInner />
+    </Suspense>
+  );
 }
 
-function isActive(job: JobFeedItem) {
-  if (job.standingOffer) return true;
-
-  const d = tsToDate(job.endDate);
-  if (!d) return true;
-
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+function JobsInner() {
+  const router = useRouter();
+  const { user } = useAuth();
+  const searchParams = useSearchParams();
 
-  const end = new Date(d);
-  end.setHours(0, 0, 0, 0);
+  // Filters come from the URL; loaded pages come back from the last visit to it
+  const [initial] = useState(() => parseFeedParams(searchParams));
+  const [restored] = useState(() => readFeedSnapshot(searchParams.toString()));
 
-  return end >= today;
-}
-
-function jobCoords(job: JobFeedItem): LatLng | null {
-  // Firestore GeoPoint-ish
-  if (
-    job.location &&
-    typeof job.location.latitude === "number" &&
-    typeof job.location.longitude === "number"
-  ) {
-    return { lat: job.location.latitude, lng: job.location.longitude };
-  }
-
-  if (job.location && typeof job.location.lat === "number" && typeof job.location.lng === "number") {
-    return { lat: job.location.lat, lng: job.location.lng };
-  }
-
-  if (typeof job.latitude === "number" && typeof job.longitude === "number") {
-    return { lat: job.latitude, lng: job.longitude };
-  }
-
-  if (typeof job.lat === "number" && typeof job.lng === "number") {
-    return { lat: job.lat, lng: job.lng };
-  }
-
-  return null;
-}
-
-export default function JobsPage() {
-  const [jobs, setJobs] = useState<JobFeedItem[]>([]);
-  const [loading, setLoading] = useState(true);
+  const [jobs, setJobs] = useState<Job[]>(restored?.jobs ?? []);
+  const [loading, setLoading] = useState(!restored);
   const [refreshing, setRefreshing] = useState(false);
 
   const [error, setError] = useState<string | null>(null);
@@ -145,24 +106,54 @@ export default function JobsPage() {
   });
 
   // Pagination (ref avoids effect loops)
-  const lastDocRef = useRef<QueryDocumentSnapshot<DocumentData> | null>(null);
-  const [hasMore, setHasMore] = useState(true);
+  const lastDocRef = useRef<JobCursor | null>(restored?.cursor ?? null);
+  const requestRef = useRef(0); // drops responses that a newer search superseded
+  const [hasMore, setHasMore] = useState(restored?.hasMore ?? true);
+  // Which query the jobs on screen belong to, so effects don't refetch them
+  const [loadedKey, setLoadedKey] = useState(restored?.loadedKey ?? "");
   const [loadingMore, setLoadingMore] = useState(false);
 
   // Filters
-  const [searchText, setSearchText] = useState("");
+  const [searchText, setSearchText] = useState(initial.q);
+  const [debouncedSearch, setDebouncedSearch] = useState(initial.q);
+  const terms = useMemo(() => searchTerms(debouncedSearch), [debouncedSearch]);
+  const [categories, setCategories] = useState<JobCategory[]>(initial.cats);
   const [zipFilter, setZipFilter] = useState("");
 
   // Distance + radius
-  const [origin, setOrigin] = useState<LatLng | null>(null);
-  const [originSource, setOriginSource] = useState<"geo" | "zip" | null>(null);
-  const [originZip, setOriginZip] = useState("");
+  const [origin, setOrigin] = useState<LatLng | null>(restored?.origin ?? null);
+  const [originSource, setOriginSource] = useState<"geo" | "zip" | null>(
+    restored?.originSource ?? null
+  );
+  const [originZip, setOriginZip] = useState(initial.zip);
+  const [appliedZip, setAppliedZip] = useState(initial.zip); // ZIP behind a "zip" origin
   const [originBusy, setOriginBusy] = useState(false);
 
-  const [radiusMiles, setRadiusMiles] = useState<number>(10);
-  const [enableRadius, setEnableRadius] = useState(false);
+  const [radiusMiles, setRadiusMiles] = useState<number>(initial.r ?? DEFAULT_RADIUS);
+  const [enableRadius, setEnableRadius] = useState(initial.r !== null);
 
-  const [sort, setSort] = useState<SortMode>("newest");
+  // Radius mode: one complete geohash query around the origin, paged locally
+  const radiusMode = enableRadius && !!origin;
+  const [nearby, setNearby] = useState<NearbyJob[] | null>(restored?.nearby ?? null);
+  const [nearbyShown, setNearbyShown] = useState(restored?.nearbyShown ?? PAGE_SIZE);
+
+  const [sort, setSort] = useState<SortMode>(initial.sort);
+  const [view, setView] = useState<ViewMode>(initial.view);
+  const bookmarks = useBookmarks(user?.uid ?? null);
+
+  const feedKey = `feed:${debouncedSearch.trim().toLowerCase()}:${categories.join(",")}`;
+  const nearKey = origin
+    ? `near:${origin.lat},${origin.lng},${radiusMiles}:${categories.join(",")}`
+    : "";
+
+  const queryString = feedQueryString({
+    q: debouncedSearch,
+    cats: categories,
+    zip: originSource === "zip" || !origin ? appliedZip : "",
+    r: enableRadius ? radiusMiles : null,
+    sort,
+    view,
+  });
 
   const fetchJobsPage = useCallback(async (mode: "reset" | "more") => {
     setError(null);
@@ -172,36 +163,20 @@ export default function JobsPage() {
       setHasMore(true);
       lastDocRef.current = null;
     }
+    const request = ++requestRef.current;
 
     try {
-      const base = query(
-        collection(db, "jobs"),
-        orderBy("creationDate", "desc"),
-        limit(PAGE_SIZE)
+      const page = await fetchJobs(
+        isReset ? null : lastDocRef.current,
+        PAGE_SIZE,
+        terms,
+        categories
       );
+      if (request !== requestRef.current) return;
+      const items = page.jobs;
 
-      const q =
-        !isReset && lastDocRef.current
-          ? query(
-              collection(db, "jobs"),
-              orderBy("creationDate", "desc"),
-              startAfter(lastDocRef.current),
-              limit(PAGE_SIZE)
-            )
-          : base;
-
-      const snap = await getDocs(q);
-
-      const items: JobFeedItem[] = snap.docs.map((d) => ({
-        id: d.id,
-        ...(d.data() as any),
-      }));
-
-      if (snap.docs.length > 0) {
-        lastDocRef.current = snap.docs[snap.docs.length - 1];
-      }
-
-      setHasMore(snap.docs.length === PAGE_SIZE);
+      lastDocRef.current = page.cursor;
+      setHasMore(page.hasMore);
 
       if (isReset) {
         setJobs(items);
@@ -216,15 +191,66 @@ export default function JobsPage() {
     } catch (e: any) {
       setError(e?.message ?? "Failed to load jobs.");
     }
-  }, []);
+  }, [terms, categories]);
 
   useEffect(() => {
+    const t = setTimeout(() => setDebouncedSearch(searchText), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(t);
+  }, [searchText]);
+
+  // A shared link with ?zip= needs its origin looked up again
+  useEffect(() => {
+    if (!initial.zip || restored?.origin) return;
+    let cancelled = false;
+
+    (async () => {
+      const coords = await geocodeZip(initial.zip).catch(() => null);
+      if (cancelled || !coords) return;
+      setOrigin(coords);
+      setOriginSource("zip");
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [initial.zip, restored]);
+
+  useEffect(() => {
+    // Radius mode has its own (complete) query below
+    if (radiusMode || loadedKey === feedKey) return;
     let cancelled = false;
 
     (async () => {
       try {
         setLoading(true);
         await fetchJobsPage("reset");
+        if (!cancelled) setLoadedKey(feedKey);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [fetchJobsPage, radiusMode, feedKey, loadedKey]);
+
+  useEffect(() => {
+    if (!radiusMode || !origin || loadedKey === nearKey) return;
+    let cancelled = false;
+
+    (async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const found = await fetchJobsNear(origin, radiusMiles, categories);
+        if (cancelled) return;
+        setNearby(found);
+        setNearbyShown(PAGE_SIZE);
+        setLoadedKey(nearKey);
+      } catch (e) {
+        if (!cancelled)
+          setError(e instanceof Error ? e.message : "Failed to load nearby jobs.");
       } finally {
         if (!cancelled) setLoading(false);
       }
@@ -233,15 +259,90 @@ export default function JobsPage() {
     return () => {
       cancelled = true;
     };
-  }, [fetchJobsPage]);
+  }, [radiusMode, origin, radiusMiles, categories, nearKey, loadedKey]);
+
+  // Mirror filters into the URL so links are shareable and Back restores them
+  useEffect(() => {
+    if (queryString === searchParams.toString()) return;
+    router.replace(queryString ? `/jobs?${queryString}` : "/jobs", { scroll: false });
+  }, [queryString, searchParams, router]);
+
+  useEffect(() => {
+    saveFeedSnapshot({
+      key: queryString,
+      loadedKey,
+      jobs,
+      cursor: lastDocRef.current,
+      hasMore,
+      nearby,
+      nearbyShown,
+      origin,
+      originSource,
+    });
+  }, [queryString, loadedKey, jobs, hasMore, nearby, nearbyShown, origin, originSource]);
+
+  // Layout effects run before the next page scrolls to top, so this sees the
+  // feed's own scroll position on the way out
+  useLayoutEffect(() => {
+    if (restored) window.scrollTo(0, restored.scrollY);
+    return () => saveFeedScroll(window.scrollY);
+  }, [restored]);
 
   const onRefresh = async () => {
     setRefreshing(true);
-    await fetchJobsPage("reset");
+    if (radiusMode && origin) {
+      try {
+        setNearby(await fetchJobsNear(origin, radiusMiles, categories));
+        setNearbyShown(PAGE_SIZE);
+      } catch (e) {
+        setError(e instanceof Error ? e.message : "Failed to load nearby jobs.");
+      }
+    } else {
+      await fetchJobsPage("reset");
+    }
     setRefreshing(false);
     setSnack({ open: true, msg: "Updated." });
   };
 
+  // Kept in taxonomy order so the URL (and the query key) doesn't depend on click order
+  const toggleCategory = (id: JobCategory) =>
+    setCategories((prev) =>
+      JOB_CATEGORIES.map((c) => c.id).filter((c) => (c === id) !== prev.includes(c))
+    );
+
+  const onToggleBookmark = async (job: Job) => {
+    if (!user) {
+      setSnack({ open: true, msg: "Log in to save jobs." });
+      return;
+    }
+
+    const saved = bookmarks.has(job.id);
+    try {
+      if (saved) await bookmarks.unsave(job.id);
+      else await bookmarks.save(job);
+      setSnack({ open: true, msg: saved ? "Removed from Saved." : "Saved. Find it under Saved." });
+    } catch (e) {
+      setSnack({ open: true, msg: e instanceof Error ? e.message : "Failed to update saved jobs." });
+    }
+  };
+
+  const onSaveSearch = async () => {
+    if (!user) {
+      setSnack({ open: true, msg: "Log in to save searches." });
+      return;
+    }
+
+    const name = window.prompt("Name this search", describeSearch(queryString));
+    if (name === null) return;
+
+    try {
+      await createSavedSearch(user.uid, name || describeSearch(queryString), queryString);
+      setSnack({ open: true, msg: "Search saved to your Profile." });
+    } catch (e) {
+      setSnack({ open: true, msg: e instanceof Error ? e.message : "Failed to save search." });
+    }
+  };
+
   const useBrowserLocation = async () => {
     setOriginBusy(true);
     try {
@@ -282,6 +383,7 @@ export default function JobsPage() {
       }
       setOrigin(coords);
       setOriginSource("zip");
+      setAppliedZip(z);
       setSnack({ open: true, msg: "Using ZIP location." });
     } catch (e: any) {
       setSnack({ open: true, msg: e?.message ?? "ZIP lookup failed." });
@@ -291,13 +393,17 @@ export default function JobsPage() {
   };
 
   const computed = useMemo(() => {
+    if (radiusMode) {
+      return (nearby ?? []).map(({ job, miles }) => ({ job, miles, hasCoords: true }));
+    }
+
     const originCoords = origin;
     return jobs.map((j) => {
-      const jc = jobCoords(j);
+      const jc = j.location;
       const miles = originCoords && jc ? haversineMiles(originCoords, jc) : null;
       return { job: j, miles, hasCoords: !!jc };
     });
-  }, [jobs, origin]);
+  }, [jobs, nearby, origin, radiusMode]);
 
   const stats = useMemo(() => {
     const total = computed.length;
@@ -306,21 +412,18 @@ export default function JobsPage() {
   }, [computed]);
 
   const visibleJobs = useMemo(() => {
-    const s = normalize(searchText).toLowerCase();
     const z = normalize(zipFilter);
 
-    let list = computed.filter(({ job }) => isActive(job));
+    // Expired jobs are already excluded by the feed query
+    let list = computed;
 
     if (z) {
       list = list.filter(({ job }) => normalize(job.zip) === z);
     }
 
-    if (s) {
-      list = list.filter(({ job }) => {
-        const title = normalize(job.title).toLowerCase();
-        const desc = normalize(job.description).toLowerCase();
-        return title.includes(s) || desc.includes(s);
-      });
+    // The feed query already matched the search; radius results still need it
+    if (radiusMode && terms.length) {
+      list = list.filter(({ job }) => matchesTerms(job.keywords, terms));
     }
 
     if (enableRadius) {
@@ -337,14 +440,14 @@ export default function JobsPage() {
 
     if (sort === "newest") {
       copy.sort((a, b) => {
-        const da = tsToDate(a.job.creationDate)?.getTime() ?? 0;
-        const dbb = tsToDate(b.job.creationDate)?.getTime() ?? 0;
+        const da = a.job.creationDate?.getTime() ?? 0;
+        const dbb = b.job.creationDate?.getTime() ?? 0;
         return dbb - da;
       });
     } else if (sort === "tipHigh") {
-      copy.sort((a, b) => tipOf(b.job) - tipOf(a.job));
+      copy.sort((a, b) => b.job.tip - a.job.tip);
     } else if (sort === "tipLow") {
-      copy.sort((a, b) => tipOf(a.job) - tipOf(b.job));
+      copy.sort((a, b) => a.job.tip - b.job.tip);
     } else if (sort === "distance") {
       copy.sort((a, b) => {
         const da =
@@ -358,7 +461,8 @@ export default function JobsPage() {
     return copy;
   }, [
     computed,
-    searchText,
+    terms,
+    radiusMode,
     zipFilter,
     enableRadius,
     origin,
@@ -366,6 +470,9 @@ export default function JobsPage() {
     sort,
   ]);
 
+  const shownJobs = radiusMode ? visibleJobs.slice(0, nearbyShown) : visibleJobs;
+  const canLoadMore = radiusMode ? visibleJobs.length > nearbyShown : hasMore;
+
   return (
     <>
       <Paper sx={{ p: 3 }}>
@@ -424,7 +531,7 @@ export default function JobsPage() {
                     value={radiusMiles}
                     onChange={(e) => setRadiusMiles(Number(e.target.value))}
                   >
-                    {[5, 10, 25, 50, 100].map((r) => (
+                    {RADIUS_OPTIONS.map((r) => (
                       <MenuItem key={r} value={r}>
                         {r} miles
                       </MenuItem>
@@ -434,7 +541,11 @@ export default function JobsPage() {
 
                 <Button
                   variant={enableRadius ? "contained" : "outlined"}
-                  onClick={() => setEnableRadius((v) => !v)}
+                  onClick={() => {
+                    // Radius results come back nearest-first; keep them that way
+                    if (!enableRadius) setSort("distance");
+                    setEnableRadius((v) => !v);
+                  }}
                 >
                   {enableRadius ? "Radius ON" : "Radius OFF"}
                 </Button>
@@ -460,6 +571,24 @@ export default function JobsPage() {
             </Stack>
           </Paper>
 
+          <ToggleButtonGroup
+            value={view}
+            exclusive
+            fullWidth
+            size="small"
+            onChange={(_, next: ViewMode | null) => next && setView(next)}
+          >
+            <ToggleButton value="list" aria-label="List view">
+              <ViewListIcon fontSize="small" sx={{ mr: 1 }} /> List
+            </ToggleButton>
+            <ToggleButton value="map" aria-label="Map view">
+              <MapIcon fontSize="small" sx={{ mr: 1 }} /> Map
+            </ToggleButton>
+            <ToggleButton value="saved" aria-label="Saved jobs">
+              <BookmarksIcon fontSize="small" sx={{ mr: 1 }} /> Saved
+            </ToggleButton>
+          </ToggleButtonGroup>
+
           {/* Other filters */}
           <TextField
             label="Search"
@@ -469,6 +598,24 @@ export default function JobsPage() {
             fullWidth
           />
 
+          <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+            {JOB_CATEGORIES.map((c) => {
+              const selected = categories.includes(c.id);
+              return (
+                <Chip
+                  key={c.id}
+                  label={c.label}
+                  color={selected ? "primary" : "default"}
+                  variant={selected ? "filled" : "outlined"}
+                  onClick={() => toggleCategory(c.id)}
+                />
+              );
+            })}
+            {categories.length > 0 && (
+              <Chip label="Clear" variant="outlined" onClick={() => setCategories([])} />
+            )}
+          </Stack>
+
           {/* <TextField
             label="ZIP (job ZIP filter, optional)"
             value={zipFilter}
@@ -492,16 +639,31 @@ export default function JobsPage() {
             </Select>
           </FormControl>
 
-          {loading && (
+          <Button variant="text" startIcon={<BookmarkAddIcon />} onClick={onSaveSearch}>
+            Save this search
+          </Button>
+
+          {view === "saved" &&
+            (user ? (
+              <SavedJobs
+                uid={user.uid}
+                bookmarks={bookmarks}
+                onError={(msg) => setSnack({ open: true, msg })}
+              />
+            ) : (
+              <Alert severity="info">Log in to see the jobs you’ve saved.</Alert>
+            ))}
+
+          {view !== "saved" && loading && (
             <Stack direction="row" spacing={2} alignItems="center">
               <CircularProgress size={22} />
               <Typography>Loading jobs...</Typography>
             </Stack>
           )}
 
-          {error && <Alert severity="error">{error}</Alert>}
+          {view !== "saved" && error && <Alert severity="error">{error}</Alert>}
 
-          {!loading && !error && visibleJobs.length === 0 && (
+          {view !== "saved" && !loading && !error && shownJobs.length === 0 && (
             <Box sx={{ py: 3 }}>
               <Typography fontWeight={800}>No jobs found.</Typography>
               <Typography color="text.secondary">
@@ -510,87 +672,43 @@ export default function JobsPage() {
             </Box>
           )}
 
-          {!loading && visibleJobs.length > 0 && (
+          {view !== "saved" && !loading && shownJobs.length > 0 && (
             <Stack spacing={2}>
-              {visibleJobs.map(({ job, miles }) => {
-                const tip = tipOf(job);
-                const money = tip ? formatMoney(tip) : "";
-                const end = tsToDate(job.endDate);
-                const posted = tsToDate(job.creationDate);
-
-                return (
-                  <Link href={`/jobs/${job.id}`} style={{ textDecoration: "none", color: "inherit" }}>
-                    <Paper
-                      key={job.id}
-                      variant="outlined"
-                      sx={{
-                        p: 2,
-                        borderRadius: 3,
-                        cursor: "pointer",
-                        "&:active": { transform: "scale(0.99)" },
-                      }}
-                    >
-                    <Stack spacing={1}>
-                      <Stack direction="row" justifyContent="space-between" spacing={2}>
-                        <Box sx={{ minWidth: 0 }}>
-                          <Typography fontWeight={800} noWrap>
-                            {job.title ?? "Untitled job"}
-                          </Typography>
-
-                          <Typography variant="body2" color="text.secondary">
-                            {normalize(job.address)
-                              ? `${normalize(job.address)}${normalize(job.zip) ? ` • ${normalize(job.zip)}` : ""}`
-                              : normalize(job.zip)}
-                          </Typography>
-                        </Box>
-
-                        <Box sx={{ textAlign: "right" }}>
-                          <Typography fontWeight={900}>{money}</Typography>
-                          <Typography variant="body2" color="text.secondary">
-                            Tip
-                          </Typography>
-                        </Box>
-                      </Stack>
-
-                      {origin && typeof miles === "number" && (
-                        <Typography variant="body2" color="text.secondary">
-                          {formatMiles(miles)} away
-                        </Typography>
-                      )}
-
-                      {normalize(job.description) && (
-                        <Typography variant="body2" color="text.secondary">
-                          {normalize(job.description)}
-                        </Typography>
-                      )}
-
-                      <Stack direction="row" justifyContent="space-between">
-                        <Typography variant="body2" color="text.secondary">
-                          {posted ? `Posted ${posted.toLocaleDateString()}` : "Posted"}
-                        </Typography>
-
-                        <Typography variant="body2" color="text.secondary">
-                          {job.standingOffer
-                            ? "Standing offer"
-                            : end
-                            ? `Ends ${end.toLocaleDateString()}`
-                            : "No end date"}
-                        </Typography>
-                      </Stack>
-                    </Stack>
-                  </Paper>
-                  </Link>
-                );
-              })}
+              {view === "map" && (
+                <JobsMap
+                  jobs={shownJobs}
+                  origin={origin}
+                  radiusMiles={radiusMode ? radiusMiles : null}
+                />
+              )}
+
+              {view === "list" &&
+                shownJobs.map(({ job, miles }) => (
+                  <JobCard
+                    key={job.id}
+                    job={job}
+                    miles={origin ? miles : null}
+                    action={
+                      <BookmarkButton
+                        saved={bookmarks.has(job.id)}
+                        onToggle={() => onToggleBookmark(job)}
+                      />
+                    }
+                  />
+                ))}
 
               {/* Pagination controls */}
-              {hasMore && (
+              {canLoadMore && (
                 <Button
                   variant="outlined"
                   size="large"
                   fullWidth
                   disabled={loadingMore}
                   onClick={async () => {
+                    if (radiusMode) {
+                      setNearbyShown((n) => n + PAGE_SIZE);
+                      return;
+                    }
                     setLoadingMore(true);
                     await fetchJobsPage("more");
                     setLoadingMore(false);
@@ -600,7 +718,7 @@ export default function JobsPage() {
                 </Button>
               )}
 
-              {!hasMore && jobs.length > 0 && (
+              {!canLoadMore && shownJobs.length > 0 && (
                 <Typography variant="body2" color="text.secondary" textAlign="center">
                   You’ve reached the end.
                 </Typography>
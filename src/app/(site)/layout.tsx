@@ -1,6 +1,7 @@
 "use client";
 
 import { Box, Container } from "@mui/material";
+import { VerifyEmailBanner } from "../../components/VerifyEmail";
 import { MobileNav } from "./mobile-nav";
 
 export default function SiteLayout({ children }: { children: React.ReactNode }) {
@@ -15,6 +16,7 @@ export default function SiteLayout({ children }: { children: React.ReactNode })
           pb: 10, // space for bottom nav
         }}
       >
+        <VerifyEmailBanner />
         {children}
       </Container>
 
@@ -1,10 +1,14 @@
 "use client";
 
-import { useState } from "react";
-import { useRouter } from "next/navigation";
+import { Suspense, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
 import Link from "next/link";
-import { signInWithEmailAndPassword } from "firebase/auth";
+import { getAdditionalUserInfo, signInWithEmailAndPassword, type UserCredential } from "firebase/auth";
 import { auth } from "../../../firebase/firebase";
+import { authErrorMessage } from "../../../firebase/authErrors";
+import { syncSession } from "../../../firebase/session";
+import { ProviderSignIn } from "../../../components/ProviderSignIn";
+import { safeNextPath, withNext } from "../../../utils/redirect";
 import {
   Alert,
   Box,
@@ -16,7 +20,18 @@ import {
 } from "@mui/material";
 
 export default function LoginPage() {
+  // useSearchParams needs a Suspense boundary for the static build
+  return (
+    <Suspense fallback={null}>
+      <LoginInner />
+    </Suspense>
+  );
+}
+
+function LoginInner() {
   const router = useRouter();
+  // Where the proxy (or RequireAuth) was sending them before login
+  const next = safeNextPath(useSearchParams().get("next"));
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [submitting, setSubmitting] = useState(false);
@@ -27,15 +42,23 @@ export default function LoginPage() {
     setError(null);
     setSubmitting(true);
     try {
-      await signInWithEmailAndPassword(auth, email.trim(), password);
-      router.push("/jobs");
-    } catch (err: any) {
-      setError(err?.message ?? "Login failed.");
+      const cred = await signInWithEmailAndPassword(auth, email.trim(), password);
+      // Guarded pages need the session cookie before we navigate
+      await syncSession(cred.user);
+      router.push(next ?? "/jobs");
+    } catch (err) {
+      setError(authErrorMessage(err, "Login failed."));
     } finally {
       setSubmitting(false);
     }
   };
 
+  // Google and phone sign-in create the account on first use
+  const onProviderSignIn = async (cred: UserCredential) => {
+    await syncSession(cred.user);
+    router.push(next ?? (getAdditionalUserInfo(cred)?.isNewUser ? "/profile" : "/jobs"));
+  };
+
   return (
     <Paper sx={{ p: 3 }}>
       <Stack spacing={2} component="form" onSubmit={onSubmit}>
@@ -64,6 +87,17 @@ export default function LoginPage() {
           fullWidth
         />
 
+        <Box sx={{ mt: -1, textAlign: "right" }}>
+          <Link
+            href={email.trim() ? `/forgot-password?email=${encodeURIComponent(email.trim())}` : "/forgot-password"}
+            style={{ textDecoration: "none" }}
+          >
+            <Typography component="span" variant="body2">
+              Forgot password?
+            </Typography>
+          </Link>
+        </Box>
+
         <Button
           type="submit"
           variant="contained"
@@ -72,11 +106,16 @@ export default function LoginPage() {
         >
           {submitting ? "Logging in..." : "Log in"}
         </Button>
+      </Stack>
+
+      {/* Outside the form above: these have forms of their own */}
+      <Stack spacing={2} sx={{ mt: 2 }}>
+        <ProviderSignIn onSignedIn={onProviderSignIn} />
 
         <Box>
           <Typography variant="body2" color="text.secondary">
             Don’t have an account?{" "}
-            <Link href="/register" style={{ textDecoration: "none" }}>
+            <Link href={withNext("/register", next)} style={{ textDecoration: "none" }}>
               Create one
             </Link>
           </Typography>
@@ -3,6 +3,7 @@
 import * as React from "react";
 import { usePathname, useRouter } from "next/navigation";
 import {
+  Badge,
   BottomNavigation,
   BottomNavigationAction,
   Paper,
@@ -12,11 +13,16 @@ import SearchIcon from "@mui/icons-material/Search";
 import AddCircleIcon from "@mui/icons-material/AddCircle";
 import PersonIcon from "@mui/icons-material/Person";
 import WorkIcon from "@mui/icons-material/Work";
+import ChatIcon from "@mui/icons-material/Chat";
+import { useAuth } from "../../context/AuthContext";
+import { subscribeToUnreadCount } from "../../firebase/conversations";
+import { lastFeedHref } from "./jobs/feed-state";
 
 const tabs = [
   { label: "Home", value: "/", icon: <HomeIcon /> },
   { label: "Jobs", value: "/jobs", icon: <SearchIcon /> },
   { label: "Post", value: "/jobs/new", icon: <AddCircleIcon /> },
+  { label: "Inbox", value: "/inbox", icon: <ChatIcon /> },
   { label: "Profile", value: "/profile", icon: <PersonIcon /> },
   { label: "My Jobs", value: "/my-jobs", icon: <WorkIcon /> },
 ];
@@ -24,6 +30,20 @@ const tabs = [
 export function MobileNav() {
   const pathname = usePathname();
   const router = useRouter();
+  const { user } = useAuth();
+  const uid = user?.uid ?? null;
+
+  const [unread, setUnread] = React.useState(0);
+
+  React.useEffect(() => {
+    // Signed out: drop the previous user's count
+    if (!uid) {
+      setUnread(0);
+      return;
+    }
+    // A failed listener just leaves the badge off
+    return subscribeToUnreadCount(uid, setUnread, () => setUnread(0));
+  }, [uid]);
 
   // Keep selection stable even on nested routes
   const current =
@@ -33,6 +53,8 @@ export function MobileNav() {
       ? "/jobs/new"
       : pathname.startsWith("/jobs")
       ? "/jobs"
+      : pathname.startsWith("/inbox")
+      ? "/inbox"
       : pathname.startsWith("/my-jobs")
       ? "/my-jobs"
       : pathname.startsWith("/profile")
@@ -55,14 +77,23 @@ export function MobileNav() {
       <BottomNavigation
         showLabels
         value={current}
-        onChange={(_, next) => router.push(next)}
+        // The Jobs tab returns to the feed with the filters it was left with
+        onChange={(_, next) => router.push(next === "/jobs" ? lastFeedHref() : next)}
       >
         {tabs.map((t) => (
           <BottomNavigationAction
             key={t.value}
             label={t.label}
             value={t.value}
-            icon={t.icon}
+            icon={
+              t.value === "/inbox" && uid ? (
+                <Badge color="error" badgeContent={unread} max={99}>
+                  {t.icon}
+                </Badge>
+              ) : (
+                t.icon
+              )
+            }
           />
         ))}
       </BottomNavigation>
@@ -1,10 +1,13 @@
 "use client";
 
 import Link from "next/link";
+import { useRouter } from "next/navigation";
 import { useCallback, useEffect, useState } from "react";
 import {
   Alert,
   Box,
+  Button,
+  Chip,
   CircularProgress,
   Divider,
   IconButton,
@@ -15,60 +18,23 @@ import {
 } from "@mui/material";
 import RefreshIcon from "@mui/icons-material/Refresh";
 import DeleteIcon from "@mui/icons-material/Delete";
-
+import EditIcon from "@mui/icons-material/Edit";
+import ContentCopyIcon from "@mui/icons-material/ContentCopy";
+import PeopleIcon from "@mui/icons-material/People";
+
+import { JobCategoryChip } from "../../../components/JobCategoryChip";
+import { JobDrafts } from "../../../components/JobDrafts";
+import { JobStatusActions } from "../../../components/JobStatusActions";
+import { JobStatusChip } from "../../../components/JobStatusChip";
+import { Notifications } from "../../../components/Notifications";
 import { RequireAuth } from "../../../components/RequireAuth";
 import { useAuth } from "../../../context/AuthContext";
-import { db } from "../../../firebase/firebase";
-import {
-  collection,
-  deleteDoc,
-  doc,
-  getDocs,
-  orderBy,
-  query,
-  where,
-} from "firebase/firestore";
-
-type JobListItem = {
-  id: string;
-  title?: string;
-
-  tip?: number; // preferred
-  pay?: number; // legacy fallback
-
-  standingOffer?: boolean;
-  address?: string;
-  zip?: string;
-
-  creationDate?: any;
-  endDate?: any;
-};
-
-function normalize(s: unknown) {
-  return typeof s === "string" ? s.trim() : "";
-}
-
-function tipOf(job: JobListItem): number {
-  const t = typeof job.tip === "number" ? job.tip : undefined;
-  const p = typeof job.pay === "number" ? job.pay : undefined;
-  return t ?? p ?? 0;
-}
-
-function formatMoney(n: number) {
-  if (!Number.isFinite(n)) return "";
-  return n.toLocaleString(undefined, { style: "currency", currency: "USD" });
-}
-
-function tsToDate(ts: any): Date | null {
-  try {
-    if (!ts) return null;
-    if (typeof ts.toDate === "function") return ts.toDate();
-    if (ts instanceof Date) return ts;
-    return null;
-  } catch {
-    return null;
-  }
-}
+import { countApplications } from "../../../firebase/applications";
+import { deleteJob, listUserJobs } from "../../../firebase/jobs";
+import type { Job } from "../../../types/job";
+import { formatAddress, formatMoney } from "../../../utils/format";
+import { isActive } from "../../../utils/jobs";
+import { describeRecurrence } from "../../../utils/recurrence";
 
 export default function MyJobsPage() {
   return (
@@ -79,10 +45,12 @@ export default function MyJobsPage() {
 }
 
 function MyJobsInner() {
+  const router = useRouter();
   const { user } = useAuth();
   const uid = user!.uid;
 
-  const [jobs, setJobs] = useState<JobListItem[]>([]);
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [applicantCounts, setApplicantCounts] = useState<Record<string, number>>({});
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
 
@@ -95,20 +63,15 @@ function MyJobsInner() {
   const fetchJobs = useCallback(async () => {
     setError(null);
     try {
-      const q = query(
-        collection(db, "jobs"),
-        where("userId", "==", uid),
-        orderBy("creationDate", "desc")
-      );
-
-      const snap = await getDocs(q);
-
-      const items: JobListItem[] = snap.docs.map((d) => ({
-        id: d.id,
-        ...(d.data() as any),
-      }));
-
-      setJobs(items);
+      const list = await listUserJobs(uid);
+      setJobs(list);
+
+      // Counts trickle in; a failed count just leaves the button without one
+      list.forEach((j) => {
+        countApplications(j.id)
+          .then((n) => setApplicantCounts((prev) => ({ ...prev, [j.id]: n })))
+          .catch(() => {});
+      });
     } catch (e: any) {
       setError(e?.message ?? "Failed to load your jobs.");
     }
@@ -138,14 +101,14 @@ function MyJobsInner() {
     setSnack({ open: true, msg: "Updated." });
   };
 
-  const onDeleteJob = async (jobId: string, title?: string) => {
+  const onDeleteJob = async (jobId: string, title: string) => {
     const ok = window.confirm(
       `Delete this job${title ? `: "${title}"` : ""}? This cannot be undone.`
     );
     if (!ok) return;
 
     try {
-      await deleteDoc(doc(db, "jobs", jobId));
+      await deleteJob(jobId);
       setJobs((prev) => prev.filter((j) => j.id !== jobId));
       setSnack({ open: true, msg: "Job deleted." });
     } catch (e: any) {
@@ -180,6 +143,10 @@ function MyJobsInner() {
 
           {error && <Alert severity="error">{error}</Alert>}
 
+          <Notifications uid={uid} />
+
+          <JobDrafts uid={uid} />
+
           {jobs.length === 0 ? (
             <Box sx={{ py: 4 }}>
               <Typography fontWeight={700}>No jobs yet.</Typography>
@@ -190,10 +157,10 @@ function MyJobsInner() {
           ) : (
             <Stack spacing={2}>
               {jobs.map((job) => {
-                const tip = tipOf(job);
-                const money = tip ? formatMoney(tip) : "";
-                const created = tsToDate(job.creationDate);
-                const end = tsToDate(job.endDate);
+                const money = job.tip ? formatMoney(job.tip) : "";
+                const created = job.creationDate;
+                const end = job.endDate;
+                const applicants = applicantCounts[job.id];
 
                 return (
                   <Link
@@ -214,29 +181,57 @@ function MyJobsInner() {
                         <Stack direction="row" justifyContent="space-between" spacing={2}>
                           <Box sx={{ minWidth: 0 }}>
                             <Typography fontWeight={800} noWrap>
-                              {job.title ?? "Untitled job"}
+                              {job.title || "Untitled job"}
                             </Typography>
 
                             <Typography variant="body2" color="text.secondary">
-                              {normalize(job.address)
-                                ? `${normalize(job.address)}${
-                                    normalize(job.zip) ? ` • ${normalize(job.zip)}` : ""
-                                  }`
-                                : normalize(job.zip)}
+                              {formatAddress(job.address, job.zip)}
                             </Typography>
+
+                            <Stack direction="row" spacing={1} sx={{ mt: 0.5 }}>
+                              <JobStatusChip status={job.status} />
+                              <JobCategoryChip job={job} />
+                              {job.moderation && (
+                                <Chip size="small" color="warning" label="Hidden by a moderator" />
+                              )}
+                            </Stack>
                           </Box>
 
-                          {/* Delete icon: prevent navigation */}
-                          <IconButton
-                            aria-label="Delete job"
-                            onClick={(e) => {
-                              e.preventDefault();
-                              e.stopPropagation();
-                              onDeleteJob(job.id, job.title);
-                            }}
-                          >
-                            <DeleteIcon />
-                          </IconButton>
+                          {/* Edit/Copy/Delete icons: prevent card navigation */}
+                          <Stack direction="row">
+                            <IconButton
+                              aria-label="Post again"
+                              onClick={(e) => {
+                                e.preventDefault();
+                                e.stopPropagation();
+                                router.push(`/jobs/new?from=${job.id}`);
+                              }}
+                            >
+                              <ContentCopyIcon />
+                            </IconButton>
+
+                            <IconButton
+                              aria-label="Edit job"
+                              onClick={(e) => {
+                                e.preventDefault();
+                                e.stopPropagation();
+                                router.push(`/jobs/${job.id}/edit`);
+                              }}
+                            >
+                              <EditIcon />
+                            </IconButton>
+
+                            <IconButton
+                              aria-label="Delete job"
+                              onClick={(e) => {
+                                e.preventDefault();
+                                e.stopPropagation();
+                                onDeleteJob(job.id, job.title);
+                              }}
+                            >
+                              <DeleteIcon />
+                            </IconButton>
+                          </Stack>
                         </Stack>
 
                         <Divider />
@@ -255,12 +250,37 @@ function MyJobsInner() {
                         </Stack>
 
                         <Typography variant="body2" color="text.secondary">
-                          {job.standingOffer
+                          {job.recurrence
+                            ? describeRecurrence(job.recurrence)
+                            : job.standingOffer
                             ? "Standing offer"
                             : end
-                            ? `Ends ${end.toLocaleDateString()}`
+                            ? `${isActive(job) ? "Ends" : "Ended"} ${end.toLocaleDateString()}`
                             : "No end date"}
                         </Typography>
+
+                        <Button
+                          variant={applicants ? "contained" : "outlined"}
+                          size="small"
+                          startIcon={<PeopleIcon />}
+                          onClick={(e) => {
+                            e.preventDefault();
+                            e.stopPropagation();
+                            router.push(`/jobs/${job.id}/applicants`);
+                          }}
+                          sx={{ alignSelf: "flex-start" }}
+                        >
+                          {typeof applicants === "number" ? `Applicants (${applicants})` : "Applicants"}
+                        </Button>
+
+                        <JobStatusActions
+                          job={job}
+                          onChanged={(next) => {
+                            setJobs((prev) => prev.map((j) => (j.id === next.id ? next : j)));
+                            setSnack({ open: true, msg: "Status updated." });
+                          }}
+                          onError={(msg) => setSnack({ open: true, msg })}
+                        />
                       </Stack>
                     </Paper>
                   </Link>
@@ -1,6 +1,7 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
 import {
   Alert,
   Box,
@@ -12,29 +13,40 @@ import {
   TextField,
   Typography,
 } from "@mui/material";
+import { RatingSummary } from "../../../components/RatingSummary";
 import { RequireAuth } from "../../../components/RequireAuth";
+import { SavedSearches } from "../../../components/SavedSearches";
 import { useAuth } from "../../../context/AuthContext";
-import { auth, db } from "../../../firebase/firebase";
+import { deleteWorkerApplications } from "../../../firebase/applications";
+import { authErrorMessage } from "../../../firebase/authErrors";
+import { deleteAllBookmarks } from "../../../firebase/bookmarks";
+import { deleteUserConversations } from "../../../firebase/conversations";
+import { auth } from "../../../firebase/firebase";
+import { deleteAllJobDrafts } from "../../../firebase/jobDrafts";
+import { deleteAllUserJobs } from "../../../firebase/jobs";
+import { deleteAllNotifications } from "../../../firebase/notifications";
 import {
-  doc,
-  getDoc,
-  serverTimestamp,
-  setDoc,
-  updateDoc,
-} from "firebase/firestore";
+  reauthenticateWithGoogle,
+  sendReauthCode,
+  signInMethod,
+  SIGN_IN_METHOD_LABEL,
+} from "../../../firebase/providers";
+import { deleteAllSavedSearches } from "../../../firebase/savedSearches";
+import {
+  createUserProfile,
+  deleteUserProfile,
+  getUserProfile,
+  syncPublicProfile,
+  updateUserProfile,
+} from "../../../firebase/users";
 import {
   EmailAuthProvider,
   reauthenticateWithCredential,
   updatePassword,
   signOut,
   deleteUser,
+  type ConfirmationResult,
 } from "firebase/auth";
-import { collection, getDocs, query, where, writeBatch } from "firebase/firestore";
-import type { UserProfile } from "../../../types/userProfile";
-
-function profileDocRef(uid: string) {
-  return doc(db, "users", uid);
-}
 
 export default function ProfilePage() {
   return (
@@ -45,10 +57,12 @@ export default function ProfilePage() {
 }
 
 function ProfileInner() {
-  const { user } = useAuth();
+  const { user, isAdmin } = useAuth();
 
   const uid = user!.uid;
   const email = user!.email ?? "";
+  // Google and phone accounts have no password; they reauthenticate with their provider
+  const method = signInMethod(user!);
 
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -72,6 +86,10 @@ function ProfileInner() {
   const [deletePw, setDeletePw] = useState("");
   const [deleteBusy, setDeleteBusy] = useState(false);
   const [deleteError, setDeleteError] = useState<string | null>(null);
+  // Phone accounts: the texted code that confirms the delete
+  const [deleteConfirmation, setDeleteConfirmation] = useState<ConfirmationResult | null>(null);
+  const [deleteCode, setDeleteCode] = useState("");
+  const recaptchaRef = useRef<HTMLDivElement>(null);
 
   const dirty = useMemo(() => {
     // basic: if any field is non-empty (we'll also track initial values implicitly by saving)
@@ -83,33 +101,25 @@ function ProfileInner() {
 
     (async () => {
       try {
-        const ref = profileDocRef(uid);
-        const snap = await getDoc(ref);
+        const profile = await getUserProfile(uid);
 
         if (!active) return;
 
-        if (!snap.exists()) {
-          // Create a doc on first visit (minimal + editable fields)
-          const initial: UserProfile = {
-            uid,
-            name: "",
-            phone: "",
-            address: "",
-            zip: "",
-            createdAt: serverTimestamp(),
-            updatedAt: serverTimestamp(),
-          };
-          await setDoc(ref, initial);
-          setName("");
-          setPhone("");
+        if (!profile) {
+          // Create a doc on first visit, prefilled from the sign-in provider
+          const prefill = { name: user!.displayName ?? "", phone: user!.phoneNumber ?? "" };
+          await createUserProfile(uid, prefill);
+          setName(prefill.name);
+          setPhone(prefill.phone);
           setAddress("");
           setZip("");
         } else {
-          const data = snap.data() as Partial<UserProfile>;
-          setName(data.name ?? "");
-          setPhone(data.phone ?? "");
-          setAddress(data.address ?? "");
-          setZip(data.zip ?? "");
+          setName(profile.name);
+          setPhone(profile.phone || (user!.phoneNumber ?? ""));
+          setAddress(profile.address);
+          setZip(profile.zip);
+          // Best effort: the public page falls back gracefully without it
+          syncPublicProfile(profile).catch(() => {});
         }
       } catch (e: any) {
         setSnack({ open: true, msg: e?.message ?? "Failed to load profile.", severity: "error" });
@@ -121,19 +131,12 @@ function ProfileInner() {
     return () => {
       active = false;
     };
-  }, [uid]);
+  }, [uid, user]);
 
   const onSave = async () => {
     setSaving(true);
     try {
-      const ref = profileDocRef(uid);
-      await updateDoc(ref, {
-        name: name.trim(),
-        phone: phone.trim(),
-        address: address.trim(),
-        zip: zip.trim(),
-        updatedAt: serverTimestamp(),
-      });
+      await updateUserProfile(uid, { name, phone, address, zip });
 
       setSnack({ open: true, msg: "Profile saved.", severity: "success" });
     } catch (e: any) {
@@ -157,8 +160,8 @@ function ProfileInner() {
       setCurrentPw("");
       setNewPw("");
       setSnack({ open: true, msg: "Password updated.", severity: "success" });
-    } catch (e: any) {
-      setPwError(e?.message ?? "Failed to update password.");
+    } catch (e) {
+      setPwError(authErrorMessage(e, "Failed to update password."));
     } finally {
       setPwBusy(false);
     }
@@ -169,27 +172,21 @@ function ProfileInner() {
     // RequireAuth will redirect them to /login automatically
   };
 
-  const deleteAllUserJobs = async (uidToDelete: string) => {
-    // Delete jobs in batches of 400-ish (keep under 500 write limit)
-    const jobsQ = query(collection(db, "jobs"), where("userId", "==", uidToDelete));
-    const snap = await getDocs(jobsQ);
+  // Delete user's jobs, then profile doc, then auth user
+  const deleteAccountData = async () => {
+    await deleteAllUserJobs(uid);
+    await deleteWorkerApplications(uid);
+    await deleteAllSavedSearches(uid);
+    await deleteAllJobDrafts(uid);
+    await deleteAllBookmarks(uid);
+    await deleteAllNotifications(uid);
+    await deleteUserConversations(uid);
 
-    if (snap.empty) return;
+    await deleteUserProfile(uid);
 
-    let batch = writeBatch(db);
-    let ops = 0;
+    await deleteUser(user!);
 
-    for (const d of snap.docs) {
-      batch.delete(d.ref);
-      ops += 1;
-      if (ops >= 400) {
-        await batch.commit();
-        batch = writeBatch(db);
-        ops = 0;
-      }
-    }
-
-    if (ops > 0) await batch.commit();
+    // If deleteUser succeeds, auth state changes → RequireAuth redirects
   };
 
   const onDeleteAccount = async () => {
@@ -197,7 +194,7 @@ function ProfileInner() {
     setDeleteBusy(true);
 
     try {
-      if (!email) throw new Error("No email found for this account.");
+      if (method === "password" && !email) throw new Error("No email found for this account.");
       // confirm via browser prompt (simple + effective mobile-first)
       const ok = window.confirm(
         "Delete your account permanently? This will delete your profile and all jobs you posted."
@@ -205,24 +202,35 @@ function ProfileInner() {
       if (!ok) return;
 
       // Reauth required to delete user
-      const cred = EmailAuthProvider.credential(email, deletePw);
-      await reauthenticateWithCredential(user!, cred);
-
-      // Delete user's jobs, then profile doc, then auth user
-      await deleteAllUserJobs(uid);
+      if (method === "password") {
+        const cred = EmailAuthProvider.credential(email, deletePw);
+        await reauthenticateWithCredential(user!, cred);
+      } else if (method === "google") {
+        await reauthenticateWithGoogle(user!);
+      } else {
+        // Finished in onConfirmDeleteCode once they enter the texted code
+        setDeleteConfirmation(await sendReauthCode(user!, recaptchaRef.current!));
+        setDeleteCode("");
+        return;
+      }
 
-      // delete profile doc
-      await updateDoc(profileDocRef(uid), { updatedAt: serverTimestamp() }).catch(() => {});
-      // Better: actually delete the doc
-      // (using deleteDoc; imported inline to keep this compact)
-      const { deleteDoc } = await import("firebase/firestore");
-      await deleteDoc(profileDocRef(uid));
+      await deleteAccountData();
+    } catch (e) {
+      setDeleteError(authErrorMessage(e, "Failed to delete account."));
+    } finally {
+      setDeleteBusy(false);
+    }
+  };
 
-      await deleteUser(user!);
+  const onConfirmDeleteCode = async () => {
+    setDeleteError(null);
+    setDeleteBusy(true);
 
-      // If deleteUser succeeds, auth state changes → RequireAuth redirects
-    } catch (e: any) {
-      setDeleteError(e?.message ?? "Failed to delete account.");
+    try {
+      await deleteConfirmation!.confirm(deleteCode.trim());
+      await deleteAccountData();
+    } catch (e) {
+      setDeleteError(authErrorMessage(e, "Failed to delete account."));
     } finally {
       setDeleteBusy(false);
     }
@@ -244,6 +252,8 @@ function ProfileInner() {
             Profile
           </Typography>
 
+          <RatingSummary uid={uid} />
+
           <TextField label="Name" value={name} onChange={(e) => setName(e.target.value)} fullWidth />
           <TextField
             label="Phone"
@@ -273,35 +283,58 @@ function ProfileInner() {
           <Divider sx={{ my: 1 }} />
 
           <Typography variant="h6" fontWeight={800}>
-            Change password
+            Saved searches
           </Typography>
 
-          {pwError && <Alert severity="error">{pwError}</Alert>}
+          <SavedSearches uid={uid} />
 
-          <TextField
-            label="Current password"
-            type="password"
-            value={currentPw}
-            onChange={(e) => setCurrentPw(e.target.value)}
-            fullWidth
-          />
-          <TextField
-            label="New password"
-            type="password"
-            value={newPw}
-            onChange={(e) => setNewPw(e.target.value)}
-            fullWidth
-            helperText="At least 6 characters."
-          />
+          <Divider sx={{ my: 1 }} />
 
-          <Button
-            variant="outlined"
-            size="large"
-            onClick={onChangePassword}
-            disabled={pwBusy || !currentPw || !newPw}
-          >
-            {pwBusy ? "Updating..." : "Update password"}
-          </Button>
+          {method === "password" ? (
+            <>
+              <Typography variant="h6" fontWeight={800}>
+                Change password
+              </Typography>
+
+              {pwError && <Alert severity="error">{pwError}</Alert>}
+
+              <TextField
+                label="Current password"
+                type="password"
+                value={currentPw}
+                onChange={(e) => setCurrentPw(e.target.value)}
+                fullWidth
+              />
+              <TextField
+                label="New password"
+                type="password"
+                value={newPw}
+                onChange={(e) => setNewPw(e.target.value)}
+                fullWidth
+                helperText="At least 6 characters."
+              />
+
+              <Button
+                variant="outlined"
+                size="large"
+                onClick={onChangePassword}
+                disabled={pwBusy || !currentPw || !newPw}
+              >
+                {pwBusy ? "Updating..." : "Update password"}
+              </Button>
+            </>
+          ) : (
+            <>
+              <Typography variant="h6" fontWeight={800}>
+                Sign-in
+              </Typography>
+              <Typography color="text.secondary">
+                You sign in with {SIGN_IN_METHOD_LABEL[method]}
+                {method === "phone" && user!.phoneNumber ? ` (${user!.phoneNumber})` : ""}, so
+                there’s no password to change.
+              </Typography>
+            </>
+          )}
 
           <Divider sx={{ my: 1 }} />
 
@@ -309,6 +342,14 @@ function ProfileInner() {
             Account
           </Typography>
 
+          {isAdmin && (
+            <Link href="/admin" style={{ textDecoration: "none" }}>
+              <Button variant="outlined" fullWidth>
+                Moderation console
+              </Button>
+            </Link>
+          )}
+
           <Button variant="text" onClick={onLogout}>
             Log out
           </Button>
@@ -321,23 +362,60 @@ function ProfileInner() {
 
               {deleteError && <Alert severity="error">{deleteError}</Alert>}
 
-              <TextField
-                label="Password to confirm"
-                type="password"
-                value={deletePw}
-                onChange={(e) => setDeletePw(e.target.value)}
-                fullWidth
-              />
-
-              <Button
-                color="error"
-                variant="contained"
-                size="large"
-                onClick={onDeleteAccount}
-                disabled={deleteBusy || !deletePw}
-              >
-                {deleteBusy ? "Deleting..." : "Delete account"}
-              </Button>
+              {method === "password" && (
+                <TextField
+                  label="Password to confirm"
+                  type="password"
+                  value={deletePw}
+                  onChange={(e) => setDeletePw(e.target.value)}
+                  fullWidth
+                />
+              )}
+
+              {method === "google" && (
+                <Typography variant="body2" color="text.secondary">
+                  You’ll be asked to sign in with Google again to confirm.
+                </Typography>
+              )}
+
+              {deleteConfirmation ? (
+                <>
+                  <TextField
+                    label="Code we texted you"
+                    value={deleteCode}
+                    onChange={(e) => setDeleteCode(e.target.value)}
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    fullWidth
+                  />
+                  <Button
+                    color="error"
+                    variant="contained"
+                    size="large"
+                    onClick={onConfirmDeleteCode}
+                    disabled={deleteBusy || !deleteCode.trim()}
+                  >
+                    {deleteBusy ? "Deleting..." : "Confirm and delete account"}
+                  </Button>
+                </>
+              ) : (
+                <Button
+                  color="error"
+                  variant="contained"
+                  size="large"
+                  onClick={onDeleteAccount}
+                  disabled={deleteBusy || (method === "password" && !deletePw)}
+                >
+                  {deleteBusy
+                    ? method === "phone"
+                      ? "Sending code..."
+                      : "Deleting..."
+                    : "Delete account"}
+                </Button>
+              )}
+
+              {/* Invisible reCAPTCHA for texting the confirmation code */}
+              <Box ref={recaptchaRef} />
             </Stack>
           </Box>
         </Stack>
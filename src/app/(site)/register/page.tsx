@@ -1,10 +1,15 @@
 "use client";
 
-import { useState } from "react";
-import { useRouter } from "next/navigation";
+import { Suspense, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
 import Link from "next/link";
-import { createUserWithEmailAndPassword } from "firebase/auth";
+import { getAdditionalUserInfo, createUserWithEmailAndPassword, type UserCredential } from "firebase/auth";
 import { auth } from "../../../firebase/firebase";
+import { authErrorMessage } from "../../../firebase/authErrors";
+import { syncSession } from "../../../firebase/session";
+import { ProviderSignIn } from "../../../components/ProviderSignIn";
+import { safeNextPath, withNext } from "../../../utils/redirect";
+import { sendVerificationEmail } from "../../../components/VerifyEmail";
 import {
   Alert,
   Box,
@@ -16,7 +21,18 @@ import {
 } from "@mui/material";
 
 export default function RegisterPage() {
+  // useSearchParams needs a Suspense boundary for the static build
+  return (
+    <Suspense fallback={null}>
+      <RegisterInner />
+    </Suspense>
+  );
+}
+
+function RegisterInner() {
   const router = useRouter();
+  // Where the proxy (or RequireAuth) was sending them before login
+  const next = safeNextPath(useSearchParams().get("next"));
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [submitting, setSubmitting] = useState(false);
@@ -27,15 +43,24 @@ export default function RegisterPage() {
     setError(null);
     setSubmitting(true);
     try {
-      await createUserWithEmailAndPassword(auth, email.trim(), password);
-      router.push("/profile"); // next we’ll create profile doc on first visit
-    } catch (err: any) {
-      setError(err?.message ?? "Registration failed.");
+      const cred = await createUserWithEmailAndPassword(auth, email.trim(), password);
+      // Posting waits for verification; the banner offers "Resend" if this one fails
+      await sendVerificationEmail(cred.user).catch(() => {});
+      await syncSession(cred.user);
+      router.push(next ?? "/profile"); // next we’ll create profile doc on first visit
+    } catch (err) {
+      setError(authErrorMessage(err, "Registration failed."));
     } finally {
       setSubmitting(false);
     }
   };
 
+  // Google and phone sign-in create the account on first use
+  const onProviderSignIn = async (cred: UserCredential) => {
+    await syncSession(cred.user);
+    router.push(next ?? (getAdditionalUserInfo(cred)?.isNewUser ? "/profile" : "/jobs"));
+  };
+
   return (
     <Paper sx={{ p: 3 }}>
       <Stack spacing={2} component="form" onSubmit={onSubmit}>
@@ -73,11 +98,16 @@ export default function RegisterPage() {
         >
           {submitting ? "Creating..." : "Create account"}
         </Button>
+      </Stack>
+
+      {/* Outside the form above: these have forms of their own */}
+      <Stack spacing={2} sx={{ mt: 2 }}>
+        <ProviderSignIn onSignedIn={onProviderSignIn} />
 
         <Box>
           <Typography variant="body2" color="text.secondary">
             Already have an account?{" "}
-            <Link href="/login" style={{ textDecoration: "none" }}>
+            <Link href={withNext("/login", next)} style={{ textDecoration: "none" }}>
               Log in
             </Link>
           </Typography>
@@ -0,0 +1,201 @@
+"use client";
+
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { useEffect, useState } from "react";
+import {
+  Alert,
+  Box,
+  CircularProgress,
+  Divider,
+  Paper,
+  Rating,
+  Stack,
+  Typography,
+} from "@mui/material";
+
+import { RatingStars } from "../../../../components/RatingSummary";
+import { countUserJobs, listOpenUserJobs } from "../../../../firebase/jobs";
+import { listReviewsFor } from "../../../../firebase/reviews";
+import { getPublicProfile } from "../../../../firebase/users";
+import type { Job } from "../../../../types/job";
+import type { Review } from "../../../../types/review";
+import type { PublicProfile } from "../../../../types/userProfile";
+import { formatMoney } from "../../../../utils/format";
+
+type ProfileView =
+  | { state: "loading" }
+  | { state: "error"; message: string }
+  | {
+      state: "ok";
+      profile: PublicProfile | null;
+      counts: { posted: number; completed: number };
+      openJobs: Job[];
+      reviews: Review[];
+    };
+
+/**
+ * Public page for any user. Reads only publicProfiles/{uid} and public job
+ * and review data — never the private users/{uid} doc.
+ */
+export default function UserProfilePage() {
+  const params = useParams<{ uid: string }>();
+  const uid = params?.uid;
+
+  const [view, setView] = useState<ProfileView>({ state: "loading" });
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        if (!uid) {
+          setView({ state: "error", message: "Missing user id." });
+          return;
+        }
+
+        const [profile, counts, openJobs, reviews] = await Promise.all([
+          getPublicProfile(uid),
+          countUserJobs(uid),
+          listOpenUserJobs(uid),
+          listReviewsFor(uid),
+        ]);
+
+        if (!cancelled) setView({ state: "ok", profile, counts, openJobs, reviews });
+      } catch (e) {
+        if (!cancelled)
+          setView({
+            state: "error",
+            message: e instanceof Error ? e.message : "Failed to load profile.",
+          });
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [uid]);
+
+  return (
+    <Paper sx={{ p: 3 }}>
+      <Stack spacing={2}>
+        {view.state === "loading" && (
+          <Stack direction="row" spacing={2} alignItems="center">
+            <CircularProgress size={22} />
+            <Typography>Loading profile...</Typography>
+          </Stack>
+        )}
+
+        {view.state === "error" && <Alert severity="error">{view.message}</Alert>}
+
+        {view.state === "ok" && (
+          <>
+            <Stack spacing={0.5}>
+              <Typography variant="h5" fontWeight={800}>
+                {view.profile?.name || "Unnamed user"}
+              </Typography>
+              <Typography variant="body2" color="text.secondary">
+                {view.profile?.memberSince
+                  ? `Member since ${view.profile.memberSince.toLocaleDateString(undefined, {
+                      month: "long",
+                      year: "numeric",
+                    })}`
+                  : "Member"}
+              </Typography>
+              <RatingStars profile={view.profile} />
+            </Stack>
+
+            <Stack direction="row" spacing={2}>
+              <Box>
+                <Typography fontWeight={900}>{view.counts.posted}</Typography>
+                <Typography variant="body2" color="text.secondary">
+                  Jobs posted
+                </Typography>
+              </Box>
+              <Box>
+                <Typography fontWeight={900}>{view.counts.completed}</Typography>
+                <Typography variant="body2" color="text.secondary">
+                  Completed
+                </Typography>
+              </Box>
+            </Stack>
+
+            <Divider />
+
+            <Typography variant="h6" fontWeight={800}>
+              Open jobs
+            </Typography>
+
+            {view.openJobs.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">
+                No open jobs right now.
+              </Typography>
+            ) : (
+              <Stack spacing={1.5}>
+                {view.openJobs.map((job) => (
+                  <Link
+                    key={job.id}
+                    href={`/jobs/${job.id}`}
+                    style={{ textDecoration: "none", color: "inherit" }}
+                  >
+                    <Paper variant="outlined" sx={{ p: 2, borderRadius: 3, cursor: "pointer" }}>
+                      <Stack direction="row" justifyContent="space-between" spacing={2}>
+                        <Box sx={{ minWidth: 0 }}>
+                          <Typography fontWeight={800} noWrap>
+                            {job.title || "Untitled job"}
+                          </Typography>
+                          <Typography variant="body2" color="text.secondary">
+                            {job.creationDate
+                              ? `Posted ${job.creationDate.toLocaleDateString()}`
+                              : "Posted"}
+                          </Typography>
+                        </Box>
+                        <Typography fontWeight={900}>
+                          {job.tip ? formatMoney(job.tip) : ""}
+                        </Typography>
+                      </Stack>
+                    </Paper>
+                  </Link>
+                ))}
+              </Stack>
+            )}
+
+            <Divider />
+
+            <Typography variant="h6" fontWeight={800}>
+              Reviews
+            </Typography>
+
+            {view.reviews.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">
+                No reviews yet.
+              </Typography>
+            ) : (
+              <Stack spacing={1.5}>
+                {view.reviews.map((r) => (
+                  <Box key={r.id}>
+                    <Stack direction="row" spacing={1} alignItems="center">
+                      <Rating value={r.rating} size="small" readOnly />
+                      <Typography variant="body2" fontWeight={700}>
+                        {r.reviewerName || "Someone"}
+                      </Typography>
+                    </Stack>
+                    {r.text && (
+                      <Typography variant="body2" color="text.secondary">
+                        “{r.text}”
+                      </Typography>
+                    )}
+                    <Typography variant="caption" color="text.secondary">
+                      {r.jobTitle || "Untitled job"}
+                      {r.createdAt ? ` · ${r.createdAt.toLocaleDateString()}` : ""}
+                    </Typography>
+                  </Box>
+                ))}
+              </Stack>
+            )}
+          </>
+        )}
+      </Stack>
+    </Paper>
+  );
+}
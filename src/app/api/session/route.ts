@@ -0,0 +1,33 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { verifyIdToken } from "../../../server/idToken";
+import { SESSION_COOKIE, SESSION_MAX_AGE, createSessionCookie } from "../../../server/session";
+
+const cookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === "production",
+  sameSite: "lax" as const,
+  path: "/",
+};
+
+/** Exchange a Firebase ID token for the session cookie the proxy checks. */
+export async function POST(request: NextRequest) {
+  const body = (await request.json().catch(() => null)) as { idToken?: unknown } | null;
+  const idToken = typeof body?.idToken === "string" ? body.idToken : "";
+
+  const token = await verifyIdToken(idToken);
+  if (!token) return NextResponse.json({ error: "Invalid ID token." }, { status: 401 });
+
+  const res = NextResponse.json({ ok: true });
+  res.cookies.set(SESSION_COOKIE, await createSessionCookie(token), {
+    ...cookieOptions,
+    maxAge: SESSION_MAX_AGE,
+  });
+  return res;
+}
+
+/** Sign out: drop the session cookie. */
+export async function DELETE() {
+  const res = NextResponse.json({ ok: true });
+  res.cookies.set(SESSION_COOKIE, "", { ...cookieOptions, maxAge: 0 });
+  return res;
+}
@@ -0,0 +1,85 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { IconButton } from "@mui/material";
+import BookmarkIcon from "@mui/icons-material/Bookmark";
+import BookmarkBorderIcon from "@mui/icons-material/BookmarkBorder";
+
+import { addBookmark, listBookmarks, removeBookmark } from "../firebase/bookmarks";
+import type { Job } from "../types/job";
+
+export type Bookmarks = {
+  has: (jobId: string) => boolean;
+  save: (job: Job) => Promise<void>;
+  unsave: (jobId: string) => Promise<void>;
+};
+
+const NONE = new Set<string>();
+
+/**
+ * The signed-in user's bookmarked job ids. Toggles show immediately and roll
+ * back if the write fails (the error is rethrown for the caller to report).
+ */
+export function useBookmarks(uid: string | null): Bookmarks {
+  const [ids, setIds] = useState<{ uid: string; value: Set<string> } | null>(null);
+
+  useEffect(() => {
+    if (!uid) return;
+    let cancelled = false;
+
+    listBookmarks(uid)
+      .then((list) => {
+        if (!cancelled) setIds({ uid, value: new Set(list.map((b) => b.jobId)) });
+      })
+      .catch(() => {});
+
+    return () => {
+      cancelled = true;
+    };
+  }, [uid]);
+
+  const current = ids && ids.uid === uid ? ids.value : NONE;
+
+  const update = async (jobId: string, saved: boolean, write: () => Promise<void>) => {
+    if (!uid) throw new Error("Log in to save jobs.");
+
+    const flip = (on: boolean) =>
+      setIds((prev) => {
+        const value = new Set(prev && prev.uid === uid ? prev.value : NONE);
+        if (on) value.add(jobId);
+        else value.delete(jobId);
+        return { uid, value };
+      });
+
+    flip(saved);
+    try {
+      await write();
+    } catch (e) {
+      flip(!saved);
+      throw e;
+    }
+  };
+
+  return {
+    has: (jobId) => current.has(jobId),
+    save: (job) => update(job.id, true, () => addBookmark(uid!, job)),
+    unsave: (jobId) => update(jobId, false, () => removeBookmark(uid!, jobId)),
+  };
+}
+
+/** Bookmark toggle that can sit inside a card link without following it. */
+export function BookmarkButton({ saved, onToggle }: { saved: boolean; onToggle: () => void }) {
+  return (
+    <IconButton
+      aria-label={saved ? "Remove from saved" : "Save job"}
+      color={saved ? "primary" : "default"}
+      onClick={(e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        onToggle();
+      }}
+    >
+      {saved ? <BookmarkIcon /> : <BookmarkBorderIcon />}
+    </IconButton>
+  );
+}
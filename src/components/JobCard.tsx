@@ -0,0 +1,111 @@
+import Link from "next/link";
+import { Box, Paper, Stack, Typography } from "@mui/material";
+
+import type { Job } from "../types/job";
+import { formatAddress, formatMoney, normalize } from "../utils/format";
+import { formatMiles } from "../utils/geo";
+import { describeRecurrence } from "../utils/recurrence";
+import { JobCategoryChip } from "./JobCategoryChip";
+
+type JobCardProps = {
+  job: Job;
+  /** Distance from the feed's origin; left out when there is none. */
+  miles?: number | null;
+  /** Sits under the tip, e.g. a bookmark toggle. Must stop the click from reaching the link. */
+  action?: React.ReactNode;
+  /** Shown above the details, e.g. why a saved job is no longer listed. */
+  flag?: React.ReactNode;
+};
+
+/** A job as listed in the feed: photo, title, tip and dates, linking to its page. */
+export function JobCard({ job, miles, action, flag }: JobCardProps) {
+  const money = job.tip ? formatMoney(job.tip) : "";
+  const end = job.endDate;
+  const posted = job.creationDate;
+
+  return (
+    <Link href={`/jobs/${job.id}`} style={{ textDecoration: "none", color: "inherit" }}>
+      <Paper
+        variant="outlined"
+        sx={{
+          p: 2,
+          borderRadius: 3,
+          cursor: "pointer",
+          "&:active": { transform: "scale(0.99)" },
+        }}
+      >
+        <Stack spacing={1}>
+          <Stack direction="row" justifyContent="space-between" spacing={2}>
+            <Stack direction="row" spacing={1.5} sx={{ minWidth: 0 }}>
+              {job.photos[0] && (
+                <Box
+                  component="img"
+                  src={job.photos[0].thumbUrl}
+                  alt=""
+                  loading="lazy"
+                  sx={{ width: 56, height: 56, flexShrink: 0, objectFit: "cover", borderRadius: 2 }}
+                />
+              )}
+
+              <Box sx={{ minWidth: 0 }}>
+                <Typography fontWeight={800} noWrap>
+                  {job.title || "Untitled job"}
+                </Typography>
+
+                <Typography variant="body2" color="text.secondary">
+                  {formatAddress(job.address, job.zip)}
+                </Typography>
+              </Box>
+            </Stack>
+
+            <Stack direction="row" alignItems="flex-start">
+              <Box sx={{ textAlign: "right" }}>
+                <Typography fontWeight={900}>{money}</Typography>
+                <Typography variant="body2" color="text.secondary">
+                  Tip
+                </Typography>
+              </Box>
+              {action}
+            </Stack>
+          </Stack>
+
+          {flag}
+
+          {job.category && (
+            <Box>
+              <JobCategoryChip job={job} />
+            </Box>
+          )}
+
+          {typeof miles === "number" && (
+            <Typography variant="body2" color="text.secondary">
+              {formatMiles(miles)} away
+            </Typography>
+          )}
+
+          {normalize(job.description) && (
+            <Typography variant="body2" color="text.secondary">
+              {normalize(job.description)}
+            </Typography>
+          )}
+
+          <Stack direction="row" justifyContent="space-between">
+            <Typography variant="body2" color="text.secondary">
+              {posted ? `Posted ${posted.toLocaleDateString()}` : "Posted"}
+            </Typography>
+
+            <Typography variant="body2" color="text.secondary">
+              {job.recurrence
+                ? describeRecurrence(job.recurrence)
+                : job.standingOffer
+                ? "Standing offer"
+                : end
+                ? `Ends ${end.toLocaleDateString()}`
+                : "No end date"}
+            </Typography>
+          </Stack>
+        </Stack>
+      </Paper>
+    </Link>
+  );
+}
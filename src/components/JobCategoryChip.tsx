@@ -0,0 +1,9 @@
+import { Chip } from "@mui/material";
+import type { Job } from "../types/job";
+import { categoryLabel } from "../utils/categories";
+
+/** "Home repair · Drywall"; renders nothing for jobs posted before categories existed. */
+export function JobCategoryChip({ job }: { job: Pick<Job, "category" | "subcategory"> }) {
+  if (!job.category) return null;
+  return <Chip size="small" variant="outlined" label={categoryLabel(job.category, job.subcategory)} />;
+}
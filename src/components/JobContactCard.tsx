@@ -0,0 +1,126 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { FirebaseError } from "firebase/app";
+import {
+  Alert,
+  Button,
+  CircularProgress,
+  Paper,
+  Stack,
+  Typography,
+} from "@mui/material";
+import LockIcon from "@mui/icons-material/Lock";
+
+import { useAuth } from "../context/AuthContext";
+import { getJobContact } from "../firebase/jobs";
+import type { Job, JobContact } from "../types/job";
+
+type ContactState =
+  | { state: "loading" }
+  | { state: "locked" }
+  | { state: "error"; message: string }
+  | { state: "ok"; contact: JobContact };
+
+/**
+ * The poster's email/phone. Logged-out visitors get a sign-in prompt; rules
+ * decide the rest (jobs can limit contact info to accepted workers).
+ */
+export function JobContactCard({ job }: { job: Job }) {
+  const { user, loading: authLoading } = useAuth();
+  const uid = user?.uid ?? null;
+
+  const [view, setView] = useState<ContactState>({ state: "loading" });
+
+  useEffect(() => {
+    if (!uid) return;
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const contact = await getJobContact(job.id);
+        if (!cancelled) setView({ state: "ok", contact });
+      } catch (e) {
+        if (cancelled) return;
+        if (e instanceof FirebaseError && e.code === "permission-denied") {
+          setView({ state: "locked" });
+        } else {
+          setView({
+            state: "error",
+            message: e instanceof Error ? e.message : "Failed to load contact info.",
+          });
+        }
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [job.id, uid]);
+
+  const contactEmail = view.state === "ok" ? view.contact.contactEmail ?? "" : "";
+  const contactPhone = view.state === "ok" ? view.contact.contactPhone ?? "" : "";
+
+  return (
+    <Paper variant="outlined" sx={{ p: 2, borderRadius: 3 }}>
+      <Typography fontWeight={800} sx={{ mb: 1 }}>
+        Contact
+      </Typography>
+
+      {!authLoading && !uid && (
+        <Stack spacing={1}>
+          <Stack direction="row" spacing={1} alignItems="center">
+            <LockIcon fontSize="small" color="action" />
+            <Typography variant="body2" color="text.secondary">
+              Sign in to see contact info.
+            </Typography>
+          </Stack>
+          <Link href="/login" style={{ textDecoration: "none" }}>
+            <Button variant="outlined" fullWidth>
+              Log in
+            </Button>
+          </Link>
+        </Stack>
+      )}
+
+      {uid && view.state === "loading" && (
+        <Stack direction="row" spacing={2} alignItems="center">
+          <CircularProgress size={18} />
+          <Typography variant="body2">Loading contact info...</Typography>
+        </Stack>
+      )}
+
+      {uid && view.state === "locked" && (
+        <Stack direction="row" spacing={1} alignItems="center">
+          <LockIcon fontSize="small" color="action" />
+          <Typography variant="body2" color="text.secondary">
+            The poster shares contact info with workers they accept.
+          </Typography>
+        </Stack>
+      )}
+
+      {uid && view.state === "error" && <Alert severity="error">{view.message}</Alert>}
+
+      {uid && view.state === "ok" &&
+        (contactEmail || contactPhone ? (
+          <Stack spacing={0.75}>
+            {contactEmail && (
+              <Typography variant="body2" color="text.secondary">
+                Email: <a href={`mailto:${contactEmail}`}>{contactEmail}</a>
+              </Typography>
+            )}
+            {contactPhone && (
+              <Typography variant="body2" color="text.secondary">
+                Phone: <a href={`tel:${contactPhone}`}>{contactPhone}</a>
+              </Typography>
+            )}
+          </Stack>
+        ) : (
+          <Typography variant="body2" color="text.secondary">
+            No contact info provided.
+          </Typography>
+        ))}
+    </Paper>
+  );
+}
@@ -0,0 +1,85 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Alert, Box, Button, IconButton, Paper, Stack, Typography } from "@mui/material";
+import DeleteIcon from "@mui/icons-material/Delete";
+
+import { deleteJobDraft, listJobDrafts } from "../firebase/jobDrafts";
+import type { JobDraft } from "../types/jobDraft";
+import { categoryLabel } from "../utils/categories";
+
+/** Unfinished job posts, each reopenable in /jobs/new. Renders nothing when empty. */
+export function JobDrafts({ uid }: { uid: string }) {
+  const router = useRouter();
+
+  const [drafts, setDrafts] = useState<JobDraft[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const list = await listJobDrafts(uid);
+        if (!cancelled) setDrafts(list);
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : "Failed to load drafts.");
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [uid]);
+
+  const onDiscard = async (d: JobDraft) => {
+    const ok = window.confirm(`Discard draft "${d.fields.title.trim() || "Untitled draft"}"?`);
+    if (!ok) return;
+
+    try {
+      await deleteJobDraft(uid, d.id);
+      setDrafts((prev) => prev.filter((x) => x.id !== d.id));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to discard draft.");
+    }
+  };
+
+  if (error) return <Alert severity="error">{error}</Alert>;
+  if (drafts.length === 0) return null;
+
+  return (
+    <Stack spacing={1.5}>
+      <Typography fontWeight={800}>Drafts</Typography>
+
+      {drafts.map((d) => (
+        <Paper key={d.id} variant="outlined" sx={{ p: 2, borderRadius: 3, borderStyle: "dashed" }}>
+          <Stack direction="row" justifyContent="space-between" alignItems="center" spacing={2}>
+            <Box sx={{ minWidth: 0 }}>
+              <Typography fontWeight={800} noWrap>
+                {d.fields.title.trim() || "Untitled draft"}
+              </Typography>
+              <Typography variant="body2" color="text.secondary">
+                {[
+                  d.fields.category && categoryLabel(d.fields.category),
+                  d.updatedAt ? `Saved ${d.updatedAt.toLocaleDateString()}` : "Saved",
+                ]
+                  .filter(Boolean)
+                  .join(" · ")}
+              </Typography>
+            </Box>
+
+            <Stack direction="row" alignItems="center">
+              <Button size="small" onClick={() => router.push(`/jobs/new?draft=${d.id}`)}>
+                Continue
+              </Button>
+              <IconButton aria-label="Discard draft" onClick={() => onDiscard(d)}>
+                <DeleteIcon />
+              </IconButton>
+            </Stack>
+          </Stack>
+        </Paper>
+      ))}
+    </Stack>
+  );
+}
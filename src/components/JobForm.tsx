@@ -0,0 +1,567 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import {
+  Alert,
+  Button,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Snackbar,
+  Stack,
+  Switch,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from "@mui/material";
+import type {
+  ContactAccess,
+  Job,
+  JobContact,
+  JobFields,
+  JobPhoto,
+  RecurrenceFrequency,
+} from "../types/job";
+import type { JobDraftFields } from "../types/jobDraft";
+import { JOB_CATEGORIES, subcategoriesOf, type JobCategory } from "../utils/categories";
+import {
+  describeRecurrence,
+  RECURRENCE_FREQUENCIES,
+  RECURRENCE_LABEL,
+  upcomingOccurrences,
+  WEEKDAY_SHORT,
+} from "../utils/recurrence";
+import { PhotoPicker } from "./PhotoPicker";
+
+export type JobFormValues = {
+  title: string;
+  description: string;
+  category: JobCategory | ""; // "" until one is picked
+  subcategory: string; // "" = none
+  address: string;
+  zip: string;
+  contactEmail: string;
+  contactPhone: string;
+  contactAccess: ContactAccess;
+  tipText: string; // keep as string for input
+  standingOffer: boolean;
+  endDate: string; // YYYY-MM-DD
+  repeat: RecurrenceFrequency | "none";
+  weekdays: number[]; // for repeat "weekdays"
+  startDate: string; // YYYY-MM-DD, first occurrence
+  until: string; // YYYY-MM-DD, "" = no end
+  photos: JobPhoto[]; // already uploaded and kept
+  newPhotos: File[]; // picked, uploaded on submit
+};
+
+export const emptyJobFormValues: JobFormValues = {
+  title: "",
+  description: "",
+  category: "",
+  subcategory: "",
+  address: "",
+  zip: "",
+  contactEmail: "",
+  contactPhone: "",
+  contactAccess: "signedIn",
+  tipText: "",
+  standingOffer: false,
+  endDate: "",
+  repeat: "none",
+  weekdays: [],
+  startDate: "",
+  until: "",
+  photos: [],
+  newPhotos: [],
+};
+
+export function todayISO() {
+  return dateToISO(new Date());
+}
+
+export function dateToISO(d: Date) {
+  const yyyy = d.getFullYear();
+  const mm = String(d.getMonth() + 1).padStart(2, "0");
+  const dd = String(d.getDate()).padStart(2, "0");
+  return `${yyyy}-${mm}-${dd}`;
+}
+
+export function validateJobForm(v: JobFormValues): string | null {
+  if (!v.title.trim()) return "Title is required.";
+  if (!v.category) return "Choose a category.";
+  if (!v.address.trim()) return "Address is required.";
+  if (!v.zip.trim()) return "ZIP is required.";
+
+  // Contact rule: at least one contact method
+  const email = v.contactEmail.trim();
+  const phone = v.contactPhone.trim();
+  if (!email && !phone)
+    return "Please provide at least one contact method: email or phone.";
+
+  const tipValue = Number(v.tipText);
+  if (!v.tipText.trim()) return "Tip is required.";
+  if (Number.isNaN(tipValue)) return "Tip must be a number.";
+  if (tipValue <= 0) return "Tip must be greater than 0.";
+
+  if (v.repeat !== "none") {
+    if (!v.startDate) return "Choose the first day this job happens.";
+    if (v.repeat === "weekdays" && !v.weekdays.length) return "Pick at least one day of the week.";
+    if (v.until && v.until < v.startDate) return "Repeat Until must be after the first day.";
+    if (v.until && v.until < todayISO()) return "Repeat Until cannot be in the past.";
+  } else if (!v.standingOffer) {
+    if (!v.endDate) return "Choose an End Date or enable Standing Offer.";
+    const chosen = new Date(v.endDate + "T00:00:00");
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    if (chosen < today) return "End Date cannot be in the past.";
+  }
+
+  return null;
+}
+
+/**
+ * Trimmed job fields for a validated form. Contact fields are omitted when
+ * blank so the repository can drop them from the document.
+ */
+export function jobFieldsFromForm(v: JobFormValues): JobFields {
+  const contactEmail = v.contactEmail.trim();
+  const contactPhone = v.contactPhone.trim();
+  const recurrence = recurrenceFromForm(v);
+
+  return {
+    title: v.title.trim(),
+    description: v.description.trim(),
+    category: v.category || null,
+    subcategory: v.subcategory || null,
+
+    address: v.address.trim(),
+    zip: v.zip.trim(),
+
+    ...(contactEmail ? { contactEmail } : {}),
+    ...(contactPhone ? { contactPhone } : {}),
+    contactAccess: v.contactAccess,
+
+    tip: Number(v.tipText),
+    // A schedule takes the place of the end date / standing offer
+    standingOffer: !recurrence && !!v.standingOffer,
+    endDate: recurrence || v.standingOffer ? null : new Date(v.endDate + "T00:00:00"),
+    recurrence,
+  };
+}
+
+function recurrenceFromForm(v: JobFormValues): JobFields["recurrence"] {
+  if (v.repeat === "none" || !v.startDate) return null;
+
+  return {
+    frequency: v.repeat,
+    weekdays: v.repeat === "weekdays" ? [...v.weekdays].sort((a, b) => a - b) : [],
+    startDate: new Date(v.startDate + "T00:00:00"),
+    until: v.until ? new Date(v.until + "T00:00:00") : null,
+  };
+}
+
+export function jobFormValuesFromJob(job: Job, contact: JobContact): JobFormValues {
+  return {
+    title: job.title,
+    description: job.description,
+    category: job.category ?? "",
+    subcategory: job.subcategory ?? "",
+    address: job.address,
+    zip: job.zip,
+    contactEmail: contact.contactEmail ?? "",
+    contactPhone: contact.contactPhone ?? "",
+    contactAccess: job.contactAccess,
+    tipText: job.tip ? String(job.tip) : "",
+    standingOffer: job.standingOffer,
+    endDate: job.endDate ? dateToISO(job.endDate) : "",
+    repeat: job.recurrence?.frequency ?? "none",
+    weekdays: job.recurrence?.weekdays ?? [],
+    startDate: job.recurrence ? dateToISO(job.recurrence.startDate) : "",
+    until: job.recurrence?.until ? dateToISO(job.recurrence.until) : "",
+    photos: job.photos,
+    newPhotos: [],
+  };
+}
+
+/**
+ * "Post again": an earlier job's details with its dates moved forward. The
+ * end date keeps the old job's posting window (a job that ran for a week runs
+ * for a week from today) and a schedule restarts at its next occurrence.
+ * Photos stay with the old job.
+ */
+export function duplicateJobFormValues(job: Job, contact: JobContact): JobFormValues {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+
+  let endDate = "";
+  if (job.endDate && job.creationDate) {
+    const posted = new Date(job.creationDate);
+    posted.setHours(0, 0, 0, 0);
+    const days = Math.max(0, Math.round((job.endDate.getTime() - posted.getTime()) / 86400000));
+    const end = new Date(today);
+    end.setDate(end.getDate() + days);
+    endDate = dateToISO(end);
+  }
+
+  // The old schedule may have ended; the copy starts over without an end
+  const next = job.recurrence
+    ? upcomingOccurrences({ ...job.recurrence, until: null }, today, 1)[0]
+    : undefined;
+
+  return {
+    ...jobFormValuesFromJob(job, contact),
+    endDate,
+    startDate: next ? dateToISO(next) : "",
+    until: "",
+    photos: [],
+  };
+}
+
+/** Everything a draft can hold; picked photos are files on this device only. */
+export function draftFieldsFromForm(v: JobFormValues): JobDraftFields {
+  return {
+    title: v.title,
+    description: v.description,
+    category: v.category,
+    subcategory: v.subcategory,
+    address: v.address,
+    zip: v.zip,
+    contactEmail: v.contactEmail,
+    contactPhone: v.contactPhone,
+    contactAccess: v.contactAccess,
+    tipText: v.tipText,
+    standingOffer: v.standingOffer,
+    endDate: v.endDate,
+    repeat: v.repeat,
+    weekdays: v.weekdays,
+    startDate: v.startDate,
+    until: v.until,
+  };
+}
+
+export function jobFormValuesFromDraft(fields: JobDraftFields): JobFormValues {
+  return { ...fields, photos: [], newPhotos: [] };
+}
+
+type JobFormProps = {
+  heading: string;
+  initialValues: JobFormValues;
+  submitLabel: string;
+  submittingLabel: string;
+  errorMessage: string;
+  /** Shown under the heading, e.g. draft status. */
+  notice?: React.ReactNode;
+  /** Called with the current values on mount and after every edit. */
+  onChange?: (values: JobFormValues) => void;
+  /** Persist the job. Throwing surfaces the message in a snackbar. */
+  onSubmit: (values: JobFormValues) => Promise<void>;
+};
+
+export function JobForm({
+  heading,
+  initialValues,
+  submitLabel,
+  submittingLabel,
+  errorMessage,
+  notice,
+  onChange,
+  onSubmit,
+}: JobFormProps) {
+  const [values, setValues] = useState<JobFormValues>(initialValues);
+
+  useEffect(() => {
+    onChange?.(values);
+  }, [values, onChange]);
+
+  const [submitting, setSubmitting] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const [snack, setSnack] = useState<{ open: boolean; msg: string }>({
+    open: false,
+    msg: "",
+  });
+
+  const set =
+    <K extends keyof JobFormValues>(key: K) =>
+    (value: JobFormValues[K]) =>
+      setValues((prev) => ({ ...prev, [key]: value }));
+
+  const contactValid = useMemo(
+    () => !!values.contactEmail.trim() || !!values.contactPhone.trim(),
+    [values.contactEmail, values.contactPhone]
+  );
+
+  const subcategories = subcategoriesOf(values.category || null);
+  const schedule = recurrenceFromForm(values);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError(null);
+
+    const err = validateJobForm(values);
+    if (err) {
+      setFormError(err);
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await onSubmit(values);
+    } catch (e) {
+      setSnack({
+        open: true,
+        msg: e instanceof Error ? e.message : errorMessage,
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      <Paper sx={{ p: 3 }}>
+        <Stack spacing={2} component="form" onSubmit={handleSubmit}>
+          <Typography variant="h5" fontWeight={800}>
+            {heading}
+          </Typography>
+
+          {notice}
+
+          {formError && <Alert severity="error">{formError}</Alert>}
+
+          {!contactValid && (
+            <Alert severity="info">
+              Add at least one contact method (email or phone) so people can
+              reach you.
+            </Alert>
+          )}
+
+          <TextField
+            label="Title"
+            value={values.title}
+            onChange={(e) => set("title")(e.target.value)}
+            required
+            fullWidth
+          />
+
+          <TextField
+            label="Description (optional)"
+            value={values.description}
+            onChange={(e) => set("description")(e.target.value)}
+            multiline
+            minRows={3}
+            fullWidth
+          />
+
+          <FormControl fullWidth required>
+            <InputLabel id="category-label">Category</InputLabel>
+            <Select
+              labelId="category-label"
+              label="Category"
+              value={values.category}
+              onChange={(e) =>
+                setValues((prev) => ({
+                  ...prev,
+                  category: e.target.value as JobCategory,
+                  subcategory: "",
+                }))
+              }
+            >
+              {JOB_CATEGORIES.map((c) => (
+                <MenuItem key={c.id} value={c.id}>
+                  {c.label}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          {subcategories.length > 0 && (
+            <FormControl fullWidth>
+              <InputLabel id="subcategory-label">Type of work (optional)</InputLabel>
+              <Select
+                labelId="subcategory-label"
+                label="Type of work (optional)"
+                value={values.subcategory}
+                onChange={(e) => set("subcategory")(e.target.value)}
+              >
+                <MenuItem value="">
+                  <em>Not sure</em>
+                </MenuItem>
+                {subcategories.map((s) => (
+                  <MenuItem key={s.id} value={s.id}>
+                    {s.label}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          )}
+
+          <TextField
+            label="Address"
+            value={values.address}
+            onChange={(e) => set("address")(e.target.value)}
+            required
+            fullWidth
+          />
+
+          <TextField
+            label="ZIP"
+            value={values.zip}
+            onChange={(e) => set("zip")(e.target.value)}
+            required
+            fullWidth
+            inputMode="numeric"
+          />
+
+          <PhotoPicker
+            photos={values.photos}
+            newPhotos={values.newPhotos}
+            onChange={(photos, newPhotos) => setValues((prev) => ({ ...prev, photos, newPhotos }))}
+          />
+
+          <Typography fontWeight={800} sx={{ pt: 1 }}>
+            Contact
+          </Typography>
+
+          <TextField
+            label="Email (optional)"
+            value={values.contactEmail}
+            onChange={(e) => set("contactEmail")(e.target.value)}
+            fullWidth
+            helperText="Provide email and/or phone. At least one is required."
+          />
+
+          <TextField
+            label="Phone (optional)"
+            value={values.contactPhone}
+            onChange={(e) => set("contactPhone")(e.target.value)}
+            fullWidth
+            helperText="Provide email and/or phone. At least one is required."
+          />
+
+          <FormControlLabel
+            control={
+              <Switch
+                checked={values.contactAccess === "accepted"}
+                onChange={(e) => set("contactAccess")(e.target.checked ? "accepted" : "signedIn")}
+              />
+            }
+            label="Only show contact info to workers I accept"
+          />
+
+          <TextField
+            label="Tip ($)"
+            value={values.tipText}
+            onChange={(e) => set("tipText")(e.target.value)}
+            required
+            fullWidth
+            inputMode="decimal"
+          />
+
+          <FormControl fullWidth>
+            <InputLabel id="repeat-label">Repeats</InputLabel>
+            <Select
+              labelId="repeat-label"
+              label="Repeats"
+              value={values.repeat}
+              onChange={(e) => set("repeat")(e.target.value as JobFormValues["repeat"])}
+            >
+              <MenuItem value="none">Doesn’t repeat</MenuItem>
+              {RECURRENCE_FREQUENCIES.map((f) => (
+                <MenuItem key={f} value={f}>
+                  {RECURRENCE_LABEL[f]}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          {values.repeat !== "none" && (
+            <>
+              <TextField
+                label="First day"
+                type="date"
+                value={values.startDate}
+                onChange={(e) => set("startDate")(e.target.value)}
+                InputLabelProps={{ shrink: true }}
+                required
+                fullWidth
+              />
+
+              {values.repeat === "weekdays" && (
+                <ToggleButtonGroup
+                  value={values.weekdays}
+                  onChange={(_, next: number[]) => set("weekdays")(next)}
+                  size="small"
+                  fullWidth
+                  aria-label="Days of the week"
+                >
+                  {WEEKDAY_SHORT.map((label, day) => (
+                    <ToggleButton key={label} value={day}>
+                      {label}
+                    </ToggleButton>
+                  ))}
+                </ToggleButtonGroup>
+              )}
+
+              <TextField
+                label="Repeat Until (optional)"
+                type="date"
+                value={values.until}
+                onChange={(e) => set("until")(e.target.value)}
+                InputLabelProps={{ shrink: true }}
+                inputProps={{ min: values.startDate || todayISO() }}
+                helperText={schedule ? describeRecurrence(schedule) : " "}
+                fullWidth
+              />
+            </>
+          )}
+
+          {values.repeat === "none" && (
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={values.standingOffer}
+                  onChange={(e) => set("standingOffer")(e.target.checked)}
+                />
+              }
+              label="Standing Offer"
+            />
+          )}
+
+          {values.repeat === "none" && !values.standingOffer && (
+            <TextField
+              label="End Date"
+              type="date"
+              value={values.endDate}
+              onChange={(e) => set("endDate")(e.target.value)}
+              InputLabelProps={{ shrink: true }}
+              inputProps={{ min: todayISO() }}
+              required
+              fullWidth
+            />
+          )}
+
+          <Button
+            type="submit"
+            variant="contained"
+            size="large"
+            disabled={submitting}
+          >
+            {submitting ? submittingLabel : submitLabel}
+          </Button>
+        </Stack>
+      </Paper>
+
+      <Snackbar
+        open={snack.open}
+        autoHideDuration={2200}
+        onClose={() => setSnack((s) => ({ ...s, open: false }))}
+        message={snack.msg}
+      />
+    </>
+  );
+}
@@ -0,0 +1,241 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import {
+  Alert,
+  Button,
+  Chip,
+  CircularProgress,
+  Paper,
+  Stack,
+  TextField,
+  Typography,
+} from "@mui/material";
+import HandshakeIcon from "@mui/icons-material/Handshake";
+
+import { useAuth } from "../context/AuthContext";
+import { applyForMoreDates, applyToJob, getMyApplication } from "../firebase/applications";
+import { getUserProfile } from "../firebase/users";
+import type { Application, ApplicationStatus } from "../types/application";
+import type { Job } from "../types/job";
+import {
+  formatOccurrence,
+  occurrenceFromKey,
+  occurrenceKey,
+  upcomingOccurrences,
+} from "../utils/recurrence";
+
+export const APPLICATION_STATUS_LABEL: Record<ApplicationStatus, string> = {
+  pending: "Waiting for the poster",
+  accepted: "Accepted",
+  declined: "Declined",
+};
+
+export const APPLICATION_STATUS_COLOR: Record<ApplicationStatus, "default" | "success" | "error"> = {
+  pending: "default",
+  accepted: "success",
+  declined: "error",
+};
+
+/** How many upcoming dates of a recurring job a worker can pick from. */
+const PICKABLE_OCCURRENCES = 6;
+
+/** "Sat, Oct 24 · Sat, Oct 31" for the dates on an application. */
+export function formatOccurrences(keys: string[]): string {
+  return keys.map((k) => formatOccurrence(occurrenceFromKey(k))).join(" · ");
+}
+
+/** "I'm interested" for workers looking at someone else's job. */
+export function JobInterest({ job }: { job: Job }) {
+  const { user, loading: authLoading } = useAuth();
+  const uid = user?.uid ?? null;
+
+  const [application, setApplication] = useState<Application | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [message, setMessage] = useState("");
+  const [picked, setPicked] = useState<string[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!uid) return;
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const found = await getMyApplication(job.id, uid);
+        if (!cancelled) setApplication(found);
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : "Failed to load your application.");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [job.id, uid]);
+
+  // Recurring jobs are filled one date at a time; offer the next open ones
+  const openDates = useMemo(() => {
+    if (!job.recurrence) return [];
+    return upcomingOccurrences(job.recurrence, new Date(), PICKABLE_OCCURRENCES * 2)
+      .map(occurrenceKey)
+      .filter((k) => !job.filledOccurrences.includes(k))
+      .slice(0, PICKABLE_OCCURRENCES);
+  }, [job.recurrence, job.filledOccurrences]);
+
+  const togglePicked = (key: string) =>
+    setPicked((prev) => openDates.filter((k) => (k === key) !== prev.includes(k)));
+
+  // Once the poster has answered, a recurring job's worker can ask for more dates
+  const askingForMore = !!application && !!job.recurrence && application.status !== "pending";
+  const canRespond =
+    job.status === "open" && (!application || (askingForMore && openDates.length > 0));
+  const earlierDates =
+    application?.acceptedOccurrences.filter((k) => !application.occurrences.includes(k)) ?? [];
+
+  const onApply = async () => {
+    if (!uid) return;
+    if (job.recurrence && !picked.length) {
+      setError("Pick the dates you can do.");
+      return;
+    }
+    setError(null);
+    setSubmitting(true);
+    try {
+      const profile = await getUserProfile(uid);
+      const name = profile?.name || user?.displayName || "";
+      if (application) await applyForMoreDates(job.id, uid, name, message, picked);
+      else await applyToJob(job.id, uid, name, message, picked);
+      setApplication(await getMyApplication(job.id, uid));
+      setMessage("");
+      setPicked([]);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to send your interest.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (authLoading) return null;
+
+  return (
+    <Paper variant="outlined" sx={{ p: 2, borderRadius: 3 }}>
+      <Stack spacing={1.5}>
+        <Typography fontWeight={800}>Interested?</Typography>
+
+        {!uid && (
+          <Stack spacing={1}>
+            <Typography variant="body2" color="text.secondary">
+              Log in to let the poster know you can help.
+            </Typography>
+            <Link href="/login" style={{ textDecoration: "none" }}>
+              <Button variant="outlined" fullWidth>
+                Log in
+              </Button>
+            </Link>
+          </Stack>
+        )}
+
+        {uid && loading && (
+          <Stack direction="row" spacing={2} alignItems="center">
+            <CircularProgress size={22} />
+            <Typography>Checking...</Typography>
+          </Stack>
+        )}
+
+        {error && <Alert severity="error">{error}</Alert>}
+
+        {uid && !loading && application && (
+          <Stack spacing={1}>
+            <Stack direction="row" spacing={1} alignItems="center">
+              <Typography variant="body2" color="text.secondary">
+                You responded
+                {application.createdAt ? ` on ${application.createdAt.toLocaleDateString()}` : ""}.
+              </Typography>
+              <Chip
+                size="small"
+                color={APPLICATION_STATUS_COLOR[application.status]}
+                label={APPLICATION_STATUS_LABEL[application.status]}
+              />
+            </Stack>
+            {application.occurrences.length > 0 && (
+              <Typography variant="body2" color="text.secondary">
+                For {formatOccurrences(application.occurrences)}
+              </Typography>
+            )}
+            {earlierDates.length > 0 && (
+              <Typography variant="body2" color="text.secondary">
+                Already accepted for {formatOccurrences(earlierDates)}
+              </Typography>
+            )}
+            {application.message && (
+              <Typography variant="body2" color="text.secondary">
+                “{application.message}”
+              </Typography>
+            )}
+          </Stack>
+        )}
+
+        {uid && !loading && !application && job.status !== "open" && (
+          <Typography variant="body2" color="text.secondary">
+            This job is no longer taking responses.
+          </Typography>
+        )}
+
+        {uid && !loading && canRespond && (
+          <>
+            {job.recurrence && (
+              <Stack spacing={1}>
+                <Typography variant="body2" color="text.secondary">
+                  {!openDates.length
+                    ? "Every upcoming date is already filled."
+                    : askingForMore
+                    ? "Can you do more dates?"
+                    : "Which dates can you do?"}
+                </Typography>
+                <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+                  {openDates.map((k) => {
+                    const selected = picked.includes(k);
+                    return (
+                      <Chip
+                        key={k}
+                        label={formatOccurrence(occurrenceFromKey(k))}
+                        color={selected ? "primary" : "default"}
+                        variant={selected ? "filled" : "outlined"}
+                        onClick={() => togglePicked(k)}
+                      />
+                    );
+                  })}
+                </Stack>
+              </Stack>
+            )}
+
+            <TextField
+              label="Message to the poster (optional)"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              inputProps={{ maxLength: 500 }}
+              multiline
+              minRows={2}
+              fullWidth
+            />
+            <Button
+              variant="contained"
+              size="large"
+              startIcon={<HandshakeIcon />}
+              onClick={onApply}
+              disabled={submitting || (!!job.recurrence && !openDates.length)}
+              fullWidth
+            >
+              {submitting ? "Sending..." : askingForMore ? "Ask for these dates" : "I'm interested"}
+            </Button>
+          </>
+        )}
+      </Stack>
+    </Paper>
+  );
+}
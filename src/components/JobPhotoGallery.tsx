@@ -0,0 +1,86 @@
+"use client";
+
+import { useState } from "react";
+import { Box, Dialog, IconButton, Stack } from "@mui/material";
+import ChevronLeftIcon from "@mui/icons-material/ChevronLeft";
+import ChevronRightIcon from "@mui/icons-material/ChevronRight";
+import CloseIcon from "@mui/icons-material/Close";
+
+import type { JobPhoto } from "../types/job";
+
+/** Thumbnail grid; tapping one opens the full-size photo with prev/next. */
+export function JobPhotoGallery({ photos }: { photos: JobPhoto[] }) {
+  const [open, setOpen] = useState<number | null>(null);
+
+  if (photos.length === 0) return null;
+
+  const current = open === null ? null : photos[open];
+  const step = (delta: number) =>
+    setOpen((i) => (i === null ? null : (i + delta + photos.length) % photos.length));
+
+  return (
+    <>
+      <Box
+        sx={{
+          display: "grid",
+          gridTemplateColumns: "repeat(auto-fill, minmax(96px, 1fr))",
+          gap: 1,
+        }}
+      >
+        {photos.map((p, i) => (
+          <Box
+            key={p.id}
+            component="img"
+            src={p.thumbUrl}
+            alt={`Photo ${i + 1}`}
+            loading="lazy"
+            onClick={() => setOpen(i)}
+            sx={{
+              width: 1,
+              aspectRatio: "1",
+              objectFit: "cover",
+              borderRadius: 2,
+              cursor: "pointer",
+            }}
+          />
+        ))}
+      </Box>
+
+      <Dialog open={current !== null} onClose={() => setOpen(null)} maxWidth="md" fullWidth>
+        {current && (
+          <Box sx={{ position: "relative", bgcolor: "common.black" }}>
+            <Box
+              component="img"
+              src={current.url}
+              alt={`Photo ${(open ?? 0) + 1}`}
+              sx={{ display: "block", width: 1, maxHeight: "80vh", objectFit: "contain" }}
+            />
+
+            <IconButton
+              aria-label="Close"
+              onClick={() => setOpen(null)}
+              sx={{ position: "absolute", top: 8, right: 8, color: "common.white" }}
+            >
+              <CloseIcon />
+            </IconButton>
+
+            {photos.length > 1 && (
+              <Stack
+                direction="row"
+                justifyContent="space-between"
+                sx={{ position: "absolute", top: "50%", left: 0, right: 0, transform: "translateY(-50%)" }}
+              >
+                <IconButton aria-label="Previous photo" onClick={() => step(-1)} sx={{ color: "common.white" }}>
+                  <ChevronLeftIcon fontSize="large" />
+                </IconButton>
+                <IconButton aria-label="Next photo" onClick={() => step(1)} sx={{ color: "common.white" }}>
+                  <ChevronRightIcon fontSize="large" />
+                </IconButton>
+              </Stack>
+            )}
+          </Box>
+        )}
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,172 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Alert,
+  Button,
+  Paper,
+  Rating,
+  Stack,
+  TextField,
+  Typography,
+} from "@mui/material";
+
+import { useAuth } from "../context/AuthContext";
+import { getMyApplication, listApplications, wasAccepted } from "../firebase/applications";
+import { getReview, submitReview } from "../firebase/reviews";
+import { getUserProfile } from "../firebase/users";
+import type { Job } from "../types/job";
+import type { Review } from "../types/review";
+
+/** Someone the signed-in user may review for this job. */
+type Reviewee = { uid: string; label: string };
+
+/**
+ * Once a job is completed, the poster and each accepted worker can rate each
+ * other. Renders nothing for anyone else.
+ */
+export function JobReviews({ job }: { job: Job }) {
+  const { user } = useAuth();
+  const uid = user?.uid ?? null;
+
+  const [reviewees, setReviewees] = useState<Reviewee[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!uid || job.status !== "completed") return;
+    let cancelled = false;
+
+    (async () => {
+      try {
+        let list: Reviewee[] = [];
+
+        if (job.userId === uid) {
+          const applications = await listApplications(job.id);
+          list = applications
+            .filter(wasAccepted)
+            .map((a) => ({ uid: a.workerUid, label: a.workerName || "your worker" }));
+        } else {
+          const mine = await getMyApplication(job.id, uid);
+          if (mine && wasAccepted(mine)) list = [{ uid: job.userId, label: "the poster" }];
+        }
+
+        if (!cancelled) setReviewees(list);
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : "Failed to load reviews.");
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [job.id, job.status, job.userId, uid]);
+
+  if (!uid || job.status !== "completed") return null;
+  if (error) return <Alert severity="error">{error}</Alert>;
+  if (reviewees.length === 0) return null;
+
+  return (
+    <Stack spacing={1.5}>
+      {reviewees.map((r) => (
+        <ReviewForm key={r.uid} job={job} reviewerUid={uid} reviewee={r} />
+      ))}
+    </Stack>
+  );
+}
+
+function ReviewForm({
+  job,
+  reviewerUid,
+  reviewee,
+}: {
+  job: Job;
+  reviewerUid: string;
+  reviewee: Reviewee;
+}) {
+  const { user } = useAuth();
+
+  // undefined = still checking for an earlier review
+  const [existing, setExisting] = useState<Review | null | undefined>(undefined);
+  const [rating, setRating] = useState<number | null>(null);
+  const [text, setText] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getReview(job.id, reviewerUid, reviewee.uid)
+      .then((r) => {
+        if (!cancelled) setExisting(r);
+      })
+      .catch((e) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : "Failed to load review.");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [job.id, reviewerUid, reviewee.uid]);
+
+  const onSubmit = async () => {
+    if (!rating) {
+      setError("Pick 1 to 5 stars.");
+      return;
+    }
+
+    setError(null);
+    setSubmitting(true);
+    try {
+      const profile = await getUserProfile(reviewerUid);
+      const name = profile?.name || user?.displayName || "";
+      await submitReview(job, reviewerUid, name, reviewee.uid, rating, text);
+      setExisting(await getReview(job.id, reviewerUid, reviewee.uid));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to save review.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (existing === undefined && !error) return null;
+
+  return (
+    <Paper variant="outlined" sx={{ p: 2, borderRadius: 3 }}>
+      <Stack spacing={1.5}>
+        <Typography fontWeight={800}>Rate {reviewee.label}</Typography>
+
+        {error && <Alert severity="error">{error}</Alert>}
+
+        {existing ? (
+          <Stack spacing={0.5}>
+            <Rating value={existing.rating} readOnly />
+            {existing.text && (
+              <Typography variant="body2" color="text.secondary">
+                “{existing.text}”
+              </Typography>
+            )}
+            <Typography variant="body2" color="text.secondary">
+              Thanks — your review is in.
+            </Typography>
+          </Stack>
+        ) : (
+          <>
+            <Rating value={rating} onChange={(_, v) => setRating(v)} size="large" />
+            <TextField
+              label="Short review (optional)"
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              inputProps={{ maxLength: 500 }}
+              multiline
+              minRows={2}
+              fullWidth
+            />
+            <Button variant="contained" onClick={onSubmit} disabled={submitting}>
+              {submitting ? "Saving..." : "Submit review"}
+            </Button>
+          </>
+        )}
+      </Stack>
+    </Paper>
+  );
+}
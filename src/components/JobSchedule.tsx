@@ -0,0 +1,58 @@
+import { Box, Chip, Stack, Typography } from "@mui/material";
+import type { Job } from "../types/job";
+import {
+  describeRecurrence,
+  formatOccurrence,
+  occurrenceKey,
+  upcomingOccurrences,
+} from "../utils/recurrence";
+
+const SHOWN_OCCURRENCES = 5;
+
+/** A recurring job's next dates, each marked open or filled. Renders nothing for one-off jobs. */
+export function JobSchedule({ job }: { job: Job }) {
+  if (!job.recurrence) return null;
+
+  const next = upcomingOccurrences(job.recurrence, new Date(), SHOWN_OCCURRENCES);
+
+  return (
+    <Box
+      sx={{
+        p: 2,
+        borderRadius: 3,
+        border: "1px solid",
+        borderColor: "divider",
+      }}
+    >
+      <Stack spacing={1}>
+        <Box>
+          <Typography fontWeight={800}>Upcoming dates</Typography>
+          <Typography variant="body2" color="text.secondary">
+            {describeRecurrence(job.recurrence)}
+          </Typography>
+        </Box>
+
+        {next.length === 0 && (
+          <Typography variant="body2" color="text.secondary">
+            No dates left on this schedule.
+          </Typography>
+        )}
+
+        {next.map((d) => {
+          const filled = job.filledOccurrences.includes(occurrenceKey(d));
+          return (
+            <Stack key={occurrenceKey(d)} direction="row" justifyContent="space-between" alignItems="center">
+              <Typography variant="body2">{formatOccurrence(d)}</Typography>
+              <Chip
+                size="small"
+                variant="outlined"
+                color={filled ? "default" : "success"}
+                label={filled ? "Filled" : "Open"}
+              />
+            </Stack>
+          );
+        })}
+      </Stack>
+    </Box>
+  );
+}
@@ -0,0 +1,78 @@
+"use client";
+
+import { useState } from "react";
+import { Button, Stack } from "@mui/material";
+
+import { setJobStatus } from "../firebase/jobs";
+import type { Job, JobStatus } from "../types/job";
+import { JOB_STATUS_TRANSITIONS } from "../utils/jobs";
+
+const ACTION_LABEL: Record<JobStatus, string> = {
+  open: "Reopen",
+  assigned: "Mark assigned",
+  completed: "Mark completed",
+  cancelled: "Cancel job",
+};
+
+// Moves that take the job somewhere it can't easily come back from
+const CONFIRM: Partial<Record<JobStatus, string>> = {
+  completed: "Mark this job completed? Completed jobs can't be reopened.",
+  cancelled: "Cancel this job? It will leave the public feed.",
+};
+
+/**
+ * Owner buttons for the next allowed statuses. Safe inside a card link:
+ * clicks don't bubble up to navigate.
+ */
+export function JobStatusActions({
+  job,
+  size = "small",
+  onChanged,
+  onError,
+}: {
+  job: Job;
+  size?: "small" | "large";
+  onChanged: (job: Job) => void;
+  onError: (message: string) => void;
+}) {
+  const [busy, setBusy] = useState(false);
+  const next = JOB_STATUS_TRANSITIONS[job.status];
+
+  if (next.length === 0) return null;
+
+  const onMove = async (status: JobStatus) => {
+    const question = CONFIRM[status];
+    if (question && !window.confirm(question)) return;
+
+    setBusy(true);
+    try {
+      await setJobStatus(job, status);
+      onChanged({ ...job, status, statusChangedAt: new Date() });
+    } catch (e) {
+      onError(e instanceof Error ? e.message : "Failed to update job status.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+      {next.map((status) => (
+        <Button
+          key={status}
+          size={size}
+          variant="outlined"
+          color={status === "cancelled" ? "error" : "primary"}
+          disabled={busy}
+          onClick={(e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            onMove(status);
+          }}
+        >
+          {ACTION_LABEL[status]}
+        </Button>
+      ))}
+    </Stack>
+  );
+}
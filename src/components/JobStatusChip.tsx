@@ -0,0 +1,14 @@
+import { Chip } from "@mui/material";
+import type { JobStatus } from "../types/job";
+import { JOB_STATUS_LABEL } from "../utils/jobs";
+
+const COLOR: Record<JobStatus, "success" | "info" | "default" | "error"> = {
+  open: "success",
+  assigned: "info",
+  completed: "default",
+  cancelled: "error",
+};
+
+export function JobStatusChip({ status }: { status: JobStatus }) {
+  return <Chip size="small" variant="outlined" color={COLOR[status]} label={JOB_STATUS_LABEL[status]} />;
+}
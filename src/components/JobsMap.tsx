@@ -0,0 +1,161 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { Box, Button, IconButton, Paper, Stack, Typography } from "@mui/material";
+import CloseIcon from "@mui/icons-material/Close";
+import L from "leaflet";
+import { Circle, CircleMarker, MapContainer, Marker, TileLayer, useMap } from "react-leaflet";
+import MarkerClusterGroup from "react-leaflet-cluster";
+import "leaflet/dist/leaflet.css";
+import "react-leaflet-cluster/dist/assets/MarkerCluster.css";
+import "react-leaflet-cluster/dist/assets/MarkerCluster.Default.css";
+
+import type { Job } from "../types/job";
+import { formatAddress, formatMoney } from "../utils/format";
+import { formatMiles, METERS_PER_MILE, type LatLng } from "../utils/geo";
+
+// Point these at a local tile server (e.g. http://localhost:8080/tile/{z}/{x}/{y}.png)
+// to avoid hitting the public OSM tiles during development.
+const TILE_URL =
+  process.env.NEXT_PUBLIC_MAP_TILE_URL || "https://tile.openstreetmap.org/{z}/{x}/{y}.png";
+const TILE_ATTRIBUTION =
+  process.env.NEXT_PUBLIC_MAP_TILE_ATTRIBUTION ||
+  '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+
+const US_CENTER: LatLng = { lat: 39.8283, lng: -98.5795 };
+
+// A divIcon sidesteps Leaflet's default marker images, which bundlers don't resolve
+const jobIcon = L.divIcon({
+  className: "",
+  html: '<div style="width:18px;height:18px;border-radius:50%;background:#1b804c;border:3px solid #fff;box-shadow:0 1px 4px rgba(0,0,0,.4)"></div>',
+  iconSize: [18, 18],
+  iconAnchor: [9, 9],
+});
+
+export type MapJob = { job: Job; miles: number | null };
+
+type JobsMapProps = {
+  jobs: MapJob[];
+  origin: LatLng | null;
+  /** Radius circle to draw around the origin, in miles. */
+  radiusMiles: number | null;
+};
+
+/** Re-frame the map whenever the plotted jobs, origin or radius change. */
+function FitView({ points, origin, radiusMiles }: { points: LatLng[]; origin: LatLng | null; radiusMiles: number | null }) {
+  const map = useMap();
+
+  useEffect(() => {
+    if (origin && radiusMiles) {
+      map.fitBounds(L.latLng(origin.lat, origin.lng).toBounds(radiusMiles * METERS_PER_MILE * 2));
+      return;
+    }
+
+    const all = origin ? [origin, ...points] : points;
+    if (all.length === 0) {
+      map.setView([US_CENTER.lat, US_CENTER.lng], 4);
+    } else if (all.length === 1) {
+      map.setView([all[0].lat, all[0].lng], 12);
+    } else {
+      map.fitBounds(L.latLngBounds(all.map((p) => [p.lat, p.lng])), { padding: [24, 24] });
+    }
+  }, [map, points, origin, radiusMiles]);
+
+  return null;
+}
+
+export default function JobsMap({ jobs, origin, radiusMiles }: JobsMapProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const plotted = useMemo(() => jobs.filter((x) => !!x.job.location), [jobs]);
+  const points = useMemo(() => plotted.map((x) => x.job.location!), [plotted]);
+  const selected = plotted.find((x) => x.job.id === selectedId) ?? null;
+
+  return (
+    <Stack spacing={1.5}>
+      <Box sx={{ height: 420, borderRadius: 3, overflow: "hidden", border: "1px solid", borderColor: "divider" }}>
+        <MapContainer
+          center={[US_CENTER.lat, US_CENTER.lng]}
+          zoom={4}
+          style={{ height: "100%", width: "100%" }}
+        >
+          <TileLayer url={TILE_URL} attribution={TILE_ATTRIBUTION} />
+
+          <FitView points={points} origin={origin} radiusMiles={radiusMiles} />
+
+          {origin && (
+            <CircleMarker
+              center={[origin.lat, origin.lng]}
+              radius={7}
+              pathOptions={{ color: "#1565c0", fillColor: "#1565c0", fillOpacity: 0.9 }}
+            />
+          )}
+
+          {origin && radiusMiles && (
+            <Circle
+              center={[origin.lat, origin.lng]}
+              radius={radiusMiles * METERS_PER_MILE}
+              pathOptions={{ color: "#1565c0", weight: 1, fillOpacity: 0.06 }}
+            />
+          )}
+
+          <MarkerClusterGroup chunkedLoading>
+            {plotted.map(({ job }) => (
+              <Marker
+                key={job.id}
+                position={[job.location!.lat, job.location!.lng]}
+                icon={jobIcon}
+                eventHandlers={{ click: () => setSelectedId(job.id) }}
+              />
+            ))}
+          </MarkerClusterGroup>
+        </MapContainer>
+      </Box>
+
+      {plotted.length < jobs.length && (
+        <Typography variant="body2" color="text.secondary">
+          {jobs.length - plotted.length} job(s) have no coordinates and aren’t on the map.
+        </Typography>
+      )}
+
+      {selected && (
+        <Paper variant="outlined" sx={{ p: 2, borderRadius: 3 }}>
+          <Stack spacing={1}>
+            <Stack direction="row" justifyContent="space-between" alignItems="flex-start" spacing={2}>
+              <Box sx={{ minWidth: 0 }}>
+                <Typography fontWeight={800} noWrap>
+                  {selected.job.title || "Untitled job"}
+                </Typography>
+                <Typography variant="body2" color="text.secondary">
+                  {formatAddress(selected.job.address, selected.job.zip)}
+                </Typography>
+              </Box>
+
+              <IconButton size="small" aria-label="Close preview" onClick={() => setSelectedId(null)}>
+                <CloseIcon fontSize="small" />
+              </IconButton>
+            </Stack>
+
+            <Stack direction="row" justifyContent="space-between" alignItems="center">
+              <Typography fontWeight={900}>
+                {selected.job.tip ? formatMoney(selected.job.tip) : ""}
+              </Typography>
+              {typeof selected.miles === "number" && (
+                <Typography variant="body2" color="text.secondary">
+                  {formatMiles(selected.miles)} away
+                </Typography>
+              )}
+            </Stack>
+
+            <Link href={`/jobs/${selected.job.id}`} style={{ textDecoration: "none" }}>
+              <Button variant="contained" fullWidth>
+                View job
+              </Button>
+            </Link>
+          </Stack>
+        </Paper>
+      )}
+    </Stack>
+  );
+}
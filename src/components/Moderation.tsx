@@ -0,0 +1,467 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Paper,
+  Stack,
+  TextField,
+  Typography,
+} from "@mui/material";
+
+import {
+  findJobsForModeration,
+  findUsersForModeration,
+  hideJob,
+  listAuditLog,
+  listSuspensions,
+  MODERATION_LIST_MAX,
+  removeJob,
+  suspendUser,
+  unhideJob,
+  unsuspendUser,
+} from "../firebase/moderation";
+import type { Job } from "../types/job";
+import type { AuditEntry, ModerationAction, Suspension } from "../types/moderation";
+import type { UserProfile } from "../types/userProfile";
+import { formatAddress } from "../utils/format";
+import { JobStatusChip } from "./JobStatusChip";
+import { UserLink } from "./UserLink";
+
+type ModerationProps = {
+  moderatorUid: string;
+  onMessage: (message: string) => void;
+};
+
+const ACTION_LABEL: Record<ModerationAction, string> = {
+  hideJob: "Hid job",
+  unhideJob: "Restored job",
+  removeJob: "Removed job",
+  suspendUser: "Suspended user",
+  unsuspendUser: "Lifted suspension",
+};
+
+/** Every action needs a reason for the audit trail; null when the moderator cancels. */
+function askReason(question: string): string | null {
+  const reason = window.prompt(`${question}\n\nReason (required, kept in the audit log):`);
+  if (reason === null) return null;
+  if (!reason.trim()) {
+    window.alert("A reason is required.");
+    return null;
+  }
+  return reason.trim();
+}
+
+/** Search box that only queries Firestore when submitted. */
+function SearchForm({
+  label,
+  helperText,
+  value,
+  onChange,
+  onSearch,
+}: {
+  label: string;
+  helperText: string;
+  value: string;
+  onChange: (value: string) => void;
+  onSearch: () => void;
+}) {
+  return (
+    <Stack
+      direction="row"
+      spacing={1}
+      alignItems="flex-start"
+      component="form"
+      onSubmit={(e: React.FormEvent) => {
+        e.preventDefault();
+        onSearch();
+      }}
+    >
+      <TextField
+        label={label}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        helperText={helperText}
+        fullWidth
+      />
+      <Button type="submit" variant="outlined" size="large" sx={{ mt: 0.5 }}>
+        Search
+      </Button>
+    </Stack>
+  );
+}
+
+function Loading({ what }: { what: string }) {
+  return (
+    <Stack direction="row" spacing={2} alignItems="center">
+      <CircularProgress size={22} />
+      <Typography>Loading {what}...</Typography>
+    </Stack>
+  );
+}
+
+/** Newest jobs, searchable by keyword or by job/poster id, with hide/restore/remove. */
+export function ModerationJobs({ moderatorUid, onMessage }: ModerationProps) {
+  const [jobs, setJobs] = useState<Job[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const [submitted, setSubmitted] = useState("");
+  const [hiddenOnly, setHiddenOnly] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const list = await findJobsForModeration(submitted, hiddenOnly);
+        if (!cancelled) setJobs(list);
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : "Failed to load jobs.");
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [submitted, hiddenOnly]);
+
+  // Show the spinner until the new results are in
+  const reload = () => {
+    setJobs(null);
+    setError(null);
+  };
+
+  const onSearch = () => {
+    if (search.trim() === submitted) return;
+    reload();
+    setSubmitted(search.trim());
+  };
+
+  const act = async (job: Job, run: () => Promise<void>, done: string, update: (prev: Job[]) => Job[]) => {
+    setBusyId(job.id);
+    try {
+      await run();
+      setJobs((prev) => (prev ? update(prev) : prev));
+      onMessage(done);
+    } catch (e) {
+      onMessage(e instanceof Error ? e.message : "Moderation action failed.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const onHide = (job: Job) => {
+    const reason = askReason(`Hide "${job.title || "Untitled job"}" from the feed?`);
+    if (!reason) return;
+    const moderation = { reason, moderatorUid, hiddenAt: new Date() };
+    act(job, () => hideJob(moderatorUid, job, reason), "Job hidden.", (prev) =>
+      prev.map((j) => (j.id === job.id ? { ...j, moderation } : j))
+    );
+  };
+
+  const onUnhide = (job: Job) => {
+    const reason = askReason(`Put "${job.title || "Untitled job"}" back in the feed?`);
+    if (!reason) return;
+    act(job, () => unhideJob(moderatorUid, job, reason), "Job restored.", (prev) =>
+      prev.map((j) => (j.id === job.id ? { ...j, moderation: null } : j))
+    );
+  };
+
+  const onRemove = (job: Job) => {
+    const reason = askReason(
+      `Permanently delete "${job.title || "Untitled job"}", its applications and photos? This can't be undone.`
+    );
+    if (!reason) return;
+    act(job, () => removeJob(moderatorUid, job, reason), "Job removed.", (prev) =>
+      prev.filter((j) => j.id !== job.id)
+    );
+  };
+
+  // A job restored in this view drops out of it
+  const shown = jobs && hiddenOnly ? jobs.filter((j) => j.moderation) : jobs;
+
+  return (
+    <Stack spacing={2}>
+      <SearchForm
+        label="Search jobs"
+        helperText={`Keywords, a job id or a poster’s uid. Shows up to ${MODERATION_LIST_MAX} jobs, newest first.`}
+        value={search}
+        onChange={setSearch}
+        onSearch={onSearch}
+      />
+      <Box>
+        <Chip
+          label="Hidden only"
+          color={hiddenOnly ? "primary" : "default"}
+          variant={hiddenOnly ? "filled" : "outlined"}
+          onClick={() => {
+            reload();
+            setHiddenOnly((v) => !v);
+          }}
+        />
+      </Box>
+
+      {error && <Alert severity="error">{error}</Alert>}
+      {!error && !shown && <Loading what="jobs" />}
+      {shown?.length === 0 && <Typography color="text.secondary">No matching jobs.</Typography>}
+
+      {shown?.map((job) => (
+        <Paper key={job.id} variant="outlined" sx={{ p: 2, borderRadius: 3 }}>
+          <Stack spacing={1}>
+            <Stack direction="row" spacing={1} alignItems="center" flexWrap="wrap" useFlexGap>
+              <Link href={`/jobs/${job.id}`} style={{ color: "inherit" }}>
+                <Typography fontWeight={800}>{job.title || "Untitled job"}</Typography>
+              </Link>
+              <JobStatusChip status={job.status} />
+              {job.moderation && <Chip size="small" color="warning" label="Hidden" />}
+            </Stack>
+
+            <Typography variant="body2" color="text.secondary">
+              {[formatAddress(job.address, job.zip), job.creationDate?.toLocaleDateString()]
+                .filter(Boolean)
+                .join(" · ")}
+            </Typography>
+            <UserLink uid={job.userId} fallback={job.userId} />
+
+            {job.moderation && (
+              <Typography variant="body2" color="text.secondary">
+                Hidden: {job.moderation.reason}
+              </Typography>
+            )}
+
+            <Stack direction="row" spacing={1}>
+              {job.moderation ? (
+                <Button size="small" onClick={() => onUnhide(job)} disabled={busyId === job.id}>
+                  Restore
+                </Button>
+              ) : (
+                <Button size="small" onClick={() => onHide(job)} disabled={busyId === job.id}>
+                  Hide
+                </Button>
+              )}
+              <Button size="small" color="error" onClick={() => onRemove(job)} disabled={busyId === job.id}>
+                Remove
+              </Button>
+            </Stack>
+          </Stack>
+        </Paper>
+      ))}
+    </Stack>
+  );
+}
+
+type ModeratedUser = Pick<UserProfile, "uid" | "name"> & {
+  profile: UserProfile | null; // null for suspended users outside the loaded page
+  suspension: Suspension | null;
+};
+
+/** Newest users plus everyone suspended, searchable by name, phone, ZIP or uid. */
+export function ModerationUsers({ moderatorUid, onMessage }: ModerationProps) {
+  const [users, setUsers] = useState<ModeratedUser[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const [submitted, setSubmitted] = useState("");
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const [profiles, suspensions] = await Promise.all([
+          findUsersForModeration(submitted),
+          listSuspensions(),
+        ]);
+        if (cancelled) return;
+
+        const byUid = new Map(suspensions.map((s) => [s.uid, s]));
+        const list: ModeratedUser[] = profiles.map((p) => ({
+          uid: p.uid,
+          name: p.name,
+          profile: p,
+          suspension: byUid.get(p.uid) ?? null,
+        }));
+        // Suspensions are few enough to load whole; narrow them here
+        const loaded = new Set(profiles.map((p) => p.uid));
+        const q = submitted.toLowerCase();
+        for (const s of suspensions) {
+          if (loaded.has(s.uid) || !(s.uid === submitted || s.name.toLowerCase().includes(q))) continue;
+          list.push({ uid: s.uid, name: s.name, profile: null, suspension: s });
+        }
+        setUsers(list);
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : "Failed to load users.");
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [submitted]);
+
+  const onSearch = () => {
+    if (search.trim() === submitted) return;
+    setUsers(null);
+    setError(null);
+    setSubmitted(search.trim());
+  };
+
+  const setSuspension = (uid: string, suspension: Suspension | null) =>
+    setUsers((prev) => prev?.map((u) => (u.uid === uid ? { ...u, suspension } : u)) ?? null);
+
+  const onSuspend = async (u: ModeratedUser) => {
+    const reason = askReason(`Suspend ${u.name || u.uid}? They won't be able to post jobs.`);
+    if (!reason) return;
+
+    setBusyId(u.uid);
+    try {
+      await suspendUser(moderatorUid, u, reason);
+      setSuspension(u.uid, { uid: u.uid, name: u.name, reason, moderatorUid, suspendedAt: new Date() });
+      onMessage("User suspended.");
+    } catch (e) {
+      onMessage(e instanceof Error ? e.message : "Failed to suspend user.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const onUnsuspend = async (u: ModeratedUser) => {
+    const reason = askReason(`Lift the suspension on ${u.name || u.uid}?`);
+    if (!reason) return;
+
+    setBusyId(u.uid);
+    try {
+      await unsuspendUser(moderatorUid, u, reason);
+      setSuspension(u.uid, null);
+      onMessage("Suspension lifted.");
+    } catch (e) {
+      onMessage(e instanceof Error ? e.message : "Failed to lift suspension.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Stack spacing={2}>
+      <SearchForm
+        label="Search users"
+        helperText={`A uid, an exact phone or ZIP, or the start of a name. Shows up to ${MODERATION_LIST_MAX} accounts, plus matching suspensions.`}
+        value={search}
+        onChange={setSearch}
+        onSearch={onSearch}
+      />
+
+      {error && <Alert severity="error">{error}</Alert>}
+      {!error && !users && <Loading what="users" />}
+      {users?.length === 0 && <Typography color="text.secondary">No matching users.</Typography>}
+
+      {users?.map((u) => (
+        <Paper key={u.uid} variant="outlined" sx={{ p: 2, borderRadius: 3 }}>
+          <Stack spacing={1}>
+            <Stack direction="row" spacing={1} alignItems="center" flexWrap="wrap" useFlexGap>
+              <Link href={`/users/${u.uid}`} style={{ color: "inherit" }}>
+                <Typography fontWeight={800}>{u.name || "No name"}</Typography>
+              </Link>
+              {u.suspension && <Chip size="small" color="error" label="Suspended" />}
+            </Stack>
+
+            <Typography variant="body2" color="text.secondary">
+              {[
+                u.profile?.phone,
+                u.profile?.zip,
+                u.profile?.createdAt && `Joined ${u.profile.createdAt.toLocaleDateString()}`,
+              ]
+                .filter(Boolean)
+                .join(" · ") || "No profile details"}
+            </Typography>
+            <Typography variant="caption" color="text.secondary" sx={{ wordBreak: "break-all" }}>
+              {u.uid}
+            </Typography>
+
+            {u.suspension && (
+              <Typography variant="body2" color="text.secondary">
+                Suspended: {u.suspension.reason}
+              </Typography>
+            )}
+
+            <Box>
+              {u.suspension ? (
+                <Button size="small" onClick={() => onUnsuspend(u)} disabled={busyId === u.uid}>
+                  Lift suspension
+                </Button>
+              ) : (
+                <Button size="small" color="error" onClick={() => onSuspend(u)} disabled={busyId === u.uid}>
+                  Suspend
+                </Button>
+              )}
+            </Box>
+          </Stack>
+        </Paper>
+      ))}
+    </Stack>
+  );
+}
+
+/** Newest moderator actions first. */
+export function ModerationAuditLog() {
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const list = await listAuditLog();
+        if (!cancelled) setEntries(list);
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : "Failed to load the audit log.");
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (error) return <Alert severity="error">{error}</Alert>;
+  if (!entries) return <Loading what="audit log" />;
+  if (entries.length === 0) return <Typography color="text.secondary">No moderator actions yet.</Typography>;
+
+  return (
+    <Stack spacing={1.5}>
+      {entries.map((e) => (
+        <Paper key={e.id} variant="outlined" sx={{ p: 2, borderRadius: 3 }}>
+          <Stack spacing={0.5}>
+            <Typography variant="body2" color="text.secondary">
+              {e.createdAt ? e.createdAt.toLocaleString() : "Just now"}
+            </Typography>
+            <Typography fontWeight={800}>
+              {e.action ? ACTION_LABEL[e.action] : "Unknown action"}:{" "}
+              {e.action === "removeJob" ? (
+                e.targetLabel || e.targetId
+              ) : (
+                <Link href={`/${e.targetType === "job" ? "jobs" : "users"}/${e.targetId}`} style={{ color: "inherit" }}>
+                  {e.targetLabel || e.targetId}
+                </Link>
+              )}
+            </Typography>
+            <Typography variant="body2">{e.reason}</Typography>
+            <Stack direction="row" spacing={1} alignItems="center">
+              <Typography variant="body2" color="text.secondary">
+                By
+              </Typography>
+              <UserLink uid={e.moderatorUid} fallback={e.moderatorUid} />
+            </Stack>
+          </Stack>
+        </Paper>
+      ))}
+    </Stack>
+  );
+}
@@ -0,0 +1,85 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Alert, Box, Chip, Paper, Stack, Typography } from "@mui/material";
+
+import { listNotifications, markNotificationRead } from "../firebase/notifications";
+import type { AppNotification } from "../types/notification";
+
+/** Replies from posters to jobs you were interested in. Renders nothing when empty. */
+export function Notifications({ uid }: { uid: string }) {
+  const router = useRouter();
+
+  const [items, setItems] = useState<AppNotification[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const list = await listNotifications(uid);
+        if (!cancelled) setItems(list);
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : "Failed to load updates.");
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [uid]);
+
+  const onOpen = (n: AppNotification) => {
+    if (!n.read) {
+      // Best effort: opening shouldn't wait on the write
+      markNotificationRead(uid, n.id).catch(() => {});
+      setItems((prev) => prev.map((x) => (x.id === n.id ? { ...x, read: true } : x)));
+    }
+    router.push(`/jobs/${n.jobId}`);
+  };
+
+  if (error) return <Alert severity="error">{error}</Alert>;
+  if (items.length === 0) return null;
+
+  return (
+    <Stack spacing={1.5}>
+      <Typography fontWeight={800}>Updates</Typography>
+
+      {items.map((n) => (
+        <Paper
+          key={n.id}
+          variant="outlined"
+          onClick={() => onOpen(n)}
+          sx={{
+            p: 2,
+            borderRadius: 3,
+            cursor: "pointer",
+            borderColor: n.read ? "divider" : "primary.main",
+          }}
+        >
+          <Stack direction="row" alignItems="center" justifyContent="space-between" spacing={1}>
+            <Box sx={{ minWidth: 0 }}>
+              <Typography fontWeight={n.read ? 600 : 800} noWrap>
+                {n.jobTitle || "Untitled job"}
+              </Typography>
+              <Typography variant="body2" color="text.secondary">
+                {n.status === "accepted"
+                  ? "The poster accepted your interest."
+                  : "The poster went with someone else."}
+                {n.createdAt ? ` · ${n.createdAt.toLocaleDateString()}` : ""}
+              </Typography>
+            </Box>
+
+            <Chip
+              size="small"
+              color={n.status === "accepted" ? "success" : "default"}
+              label={n.status === "accepted" ? "Accepted" : "Declined"}
+            />
+          </Stack>
+        </Paper>
+      ))}
+    </Stack>
+  );
+}
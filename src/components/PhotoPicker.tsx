@@ -0,0 +1,98 @@
+"use client";
+
+import { useEffect, useMemo } from "react";
+import { Box, Button, IconButton, Stack, Typography } from "@mui/material";
+import AddPhotoAlternateIcon from "@mui/icons-material/AddPhotoAlternate";
+import CloseIcon from "@mui/icons-material/Close";
+
+import { MAX_JOB_PHOTOS } from "../firebase/photos";
+import type { JobPhoto } from "../types/job";
+
+type PhotoPickerProps = {
+  photos: JobPhoto[];
+  newPhotos: File[];
+  onChange: (photos: JobPhoto[], newPhotos: File[]) => void;
+};
+
+/** Thumbnails of kept + newly picked photos, with remove buttons and an "Add photos" input. */
+export function PhotoPicker({ photos, newPhotos, onChange }: PhotoPickerProps) {
+  const previews = useMemo(() => newPhotos.map((f) => URL.createObjectURL(f)), [newPhotos]);
+
+  useEffect(
+    () => () => previews.forEach((url) => URL.revokeObjectURL(url)),
+    [previews]
+  );
+
+  const room = MAX_JOB_PHOTOS - photos.length - newPhotos.length;
+
+  const onPick = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = Array.from(e.target.files ?? []).filter((f) => f.type.startsWith("image/"));
+    e.target.value = "";
+    if (picked.length) onChange(photos, [...newPhotos, ...picked.slice(0, room)]);
+  };
+
+  const tiles = [
+    ...photos.map((p) => ({
+      key: p.id,
+      src: p.thumbUrl,
+      remove: () => onChange(photos.filter((x) => x.id !== p.id), newPhotos),
+    })),
+    ...newPhotos.map((f, i) => ({
+      key: `new-${i}-${f.name}`,
+      src: previews[i],
+      remove: () => onChange(photos, newPhotos.filter((_, j) => j !== i)),
+    })),
+  ];
+
+  return (
+    <Stack spacing={1}>
+      <Typography fontWeight={800} sx={{ pt: 1 }}>
+        Photos (optional)
+      </Typography>
+
+      {tiles.length > 0 && (
+        <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+          {tiles.map((t) => (
+            <Box key={t.key} sx={{ position: "relative", width: 88, height: 88 }}>
+              <Box
+                component="img"
+                src={t.src}
+                alt=""
+                sx={{ width: 1, height: 1, objectFit: "cover", borderRadius: 2 }}
+              />
+              <IconButton
+                size="small"
+                aria-label="Remove photo"
+                onClick={t.remove}
+                sx={{
+                  position: "absolute",
+                  top: 2,
+                  right: 2,
+                  bgcolor: "background.paper",
+                  "&:hover": { bgcolor: "background.paper" },
+                }}
+              >
+                <CloseIcon fontSize="small" />
+              </IconButton>
+            </Box>
+          ))}
+        </Stack>
+      )}
+
+      <Button
+        component="label"
+        variant="outlined"
+        startIcon={<AddPhotoAlternateIcon />}
+        disabled={room <= 0}
+        sx={{ alignSelf: "flex-start" }}
+      >
+        {room > 0 ? "Add photos" : `Up to ${MAX_JOB_PHOTOS} photos`}
+        <input type="file" accept="image/*" multiple hidden onChange={onPick} />
+      </Button>
+
+      <Typography variant="body2" color="text.secondary">
+        Photos are resized and location data is removed before upload.
+      </Typography>
+    </Stack>
+  );
+}
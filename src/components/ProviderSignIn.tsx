@@ -0,0 +1,132 @@
+"use client";
+
+import { useRef, useState } from "react";
+import type { ConfirmationResult, UserCredential } from "firebase/auth";
+import { Alert, Box, Button, Divider, Stack, TextField, Typography } from "@mui/material";
+import GoogleIcon from "@mui/icons-material/Google";
+import PhoneIphoneIcon from "@mui/icons-material/PhoneIphone";
+
+import { authErrorMessage } from "../firebase/authErrors";
+import { sendSignInCode, signInWithGoogle } from "../firebase/providers";
+
+/**
+ * Google and SMS sign-in for /login and /register. Either one creates the
+ * account on first use, so both pages behave the same.
+ */
+export function ProviderSignIn({
+  onSignedIn,
+}: {
+  onSignedIn: (cred: UserCredential) => Promise<void>;
+}) {
+  const recaptchaRef = useRef<HTMLDivElement>(null);
+
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [phoneOpen, setPhoneOpen] = useState(false);
+  const [phone, setPhone] = useState("");
+  const [confirmation, setConfirmation] = useState<ConfirmationResult | null>(null);
+  const [code, setCode] = useState("");
+
+  const run = async (fallback: string, action: () => Promise<void>) => {
+    setError(null);
+    setBusy(true);
+    try {
+      await action();
+    } catch (e) {
+      setError(authErrorMessage(e, fallback));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const onGoogle = () =>
+    run("Google sign-in failed.", async () => {
+      await onSignedIn(await signInWithGoogle());
+    });
+
+  const onSendCode = (e: React.FormEvent) => {
+    e.preventDefault();
+    return run("Couldn’t send the code.", async () => {
+      setConfirmation(await sendSignInCode(phone, recaptchaRef.current!));
+      setCode("");
+    });
+  };
+
+  const onConfirmCode = (e: React.FormEvent) => {
+    e.preventDefault();
+    return run("Phone sign-in failed.", async () => {
+      await onSignedIn(await confirmation!.confirm(code.trim()));
+    });
+  };
+
+  return (
+    <Stack spacing={2}>
+      <Divider>
+        <Typography variant="body2" color="text.secondary">
+          or
+        </Typography>
+      </Divider>
+
+      {error && <Alert severity="error">{error}</Alert>}
+
+      <Button variant="outlined" size="large" startIcon={<GoogleIcon />} onClick={onGoogle} disabled={busy}>
+        Continue with Google
+      </Button>
+
+      {!phoneOpen && (
+        <Button
+          variant="outlined"
+          size="large"
+          startIcon={<PhoneIphoneIcon />}
+          onClick={() => setPhoneOpen(true)}
+          disabled={busy}
+        >
+          Continue with phone
+        </Button>
+      )}
+
+      {phoneOpen && !confirmation && (
+        <Stack spacing={2} component="form" onSubmit={onSendCode}>
+          <TextField
+            label="Phone number"
+            type="tel"
+            value={phone}
+            autoComplete="tel"
+            onChange={(e) => setPhone(e.target.value)}
+            helperText="We’ll text you a code. Message and data rates may apply."
+            required
+            fullWidth
+          />
+          <Button type="submit" variant="contained" size="large" disabled={busy}>
+            {busy ? "Sending..." : "Text me a code"}
+          </Button>
+        </Stack>
+      )}
+
+      {confirmation && (
+        <Stack spacing={2} component="form" onSubmit={onConfirmCode}>
+          <TextField
+            label="6-digit code"
+            value={code}
+            autoComplete="one-time-code"
+            inputMode="numeric"
+            onChange={(e) => setCode(e.target.value)}
+            helperText={`Sent to ${phone}.`}
+            required
+            fullWidth
+          />
+          <Button type="submit" variant="contained" size="large" disabled={busy}>
+            {busy ? "Checking..." : "Verify code"}
+          </Button>
+          <Button size="small" onClick={() => setConfirmation(null)} disabled={busy}>
+            Use a different number
+          </Button>
+        </Stack>
+      )}
+
+      {/* Invisible reCAPTCHA for SMS sign-in */}
+      <Box ref={recaptchaRef} />
+    </Stack>
+  );
+}
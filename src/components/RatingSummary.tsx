@@ -0,0 +1,60 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Rating, Stack, Typography } from "@mui/material";
+
+import { getPublicProfile } from "../firebase/users";
+import type { PublicProfile } from "../types/userProfile";
+import { averageRating } from "../utils/format";
+
+/** Stars + "4.5 (12)" from a loaded public profile, or "No ratings yet". */
+export function RatingStars({ profile }: { profile: PublicProfile | null }) {
+  const avg = profile ? averageRating(profile.ratingSum, profile.ratingCount) : null;
+
+  if (!profile || avg === null) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        No ratings yet
+      </Typography>
+    );
+  }
+
+  return (
+    <Stack direction="row" spacing={0.5} alignItems="center">
+      <Rating value={avg} precision={0.5} size="small" readOnly />
+      <Typography variant="body2" color="text.secondary">
+        {avg.toFixed(1)} ({profile.ratingCount})
+      </Typography>
+    </Stack>
+  );
+}
+
+/** Loads a user's public profile and shows their rating. Renders nothing while loading. */
+export function RatingSummary({ uid }: { uid: string }) {
+  const profile = usePublicProfile(uid);
+  if (profile === undefined) return null;
+  return <RatingStars profile={profile} />;
+}
+
+/** undefined while loading; null when the user has no public profile. */
+export function usePublicProfile(uid: string): PublicProfile | null | undefined {
+  const [profile, setProfile] = useState<{ uid: string; value: PublicProfile | null } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getPublicProfile(uid)
+      .then((value) => {
+        if (!cancelled) setProfile({ uid, value });
+      })
+      .catch(() => {
+        if (!cancelled) setProfile({ uid, value: null });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [uid]);
+
+  return profile && profile.uid === uid ? profile.value : undefined;
+}
@@ -4,13 +4,17 @@ import { CircularProgress, Box } from "@mui/material";
 import { useAuth } from "../context/AuthContext";
 import { useRouter } from "next/navigation";
 import { useEffect } from "react";
+import { withNext } from "../utils/redirect";
 
 export function RequireAuth({ children }: { children: React.ReactNode }) {
   const { user, loading } = useAuth();
   const router = useRouter();
 
   useEffect(() => {
-    if (!loading && !user) router.replace("/login");
+    // Normally the proxy redirects first; this covers a session that ended client-side
+    if (!loading && !user) {
+      router.replace(withNext("/login", window.location.pathname + window.location.search));
+    }
   }, [loading, user, router]);
 
   if (loading || !user) {
@@ -0,0 +1,124 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Alert, Box, Chip, CircularProgress, Paper, Stack, Typography } from "@mui/material";
+
+import { listSavedJobs, type SavedJob } from "../firebase/bookmarks";
+import { formatAddress, formatMoney } from "../utils/format";
+import { isActive, JOB_STATUS_LABEL } from "../utils/jobs";
+import { BookmarkButton, type Bookmarks } from "./BookmarkButton";
+import { JobCard } from "./JobCard";
+
+type SavedJobsProps = {
+  uid: string;
+  bookmarks: Bookmarks;
+  onError: (message: string) => void;
+};
+
+/**
+ * Bookmarked jobs, newest save first. Jobs that stopped being listed stay
+ * here with a note saying why, until the user removes them.
+ */
+export function SavedJobs({ uid, bookmarks, onError }: SavedJobsProps) {
+  const [saved, setSaved] = useState<SavedJob[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const list = await listSavedJobs(uid);
+        if (!cancelled) setSaved(list);
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : "Failed to load saved jobs.");
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [uid]);
+
+  const unsave = async (jobId: string) => {
+    try {
+      await bookmarks.unsave(jobId);
+      setSaved((prev) => prev?.filter((s) => s.bookmark.jobId !== jobId) ?? null);
+    } catch (e) {
+      onError(e instanceof Error ? e.message : "Failed to update saved jobs.");
+    }
+  };
+
+  if (error) return <Alert severity="error">{error}</Alert>;
+
+  if (!saved) {
+    return (
+      <Stack direction="row" spacing={2} alignItems="center">
+        <CircularProgress size={22} />
+        <Typography>Loading saved jobs...</Typography>
+      </Stack>
+    );
+  }
+
+  if (saved.length === 0) {
+    return (
+      <Box sx={{ py: 3 }}>
+        <Typography fontWeight={800}>No saved jobs.</Typography>
+        <Typography color="text.secondary">
+          Tap the bookmark on any job to keep it here.
+        </Typography>
+      </Box>
+    );
+  }
+
+  return (
+    <Stack spacing={2}>
+      {saved.map(({ bookmark, job, takenDown }) => {
+        const remove = <BookmarkButton saved onToggle={() => unsave(bookmark.jobId)} />;
+
+        if (!job) {
+          return (
+            <Paper key={bookmark.id} variant="outlined" sx={{ p: 2, borderRadius: 3, opacity: 0.7 }}>
+              <Stack spacing={1}>
+                <Stack direction="row" justifyContent="space-between" spacing={2}>
+                  <Box sx={{ minWidth: 0 }}>
+                    <Typography fontWeight={800} noWrap>
+                      {bookmark.title || "Untitled job"}
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      {formatAddress(bookmark.address, bookmark.zip)}
+                    </Typography>
+                  </Box>
+                  <Stack direction="row" alignItems="flex-start">
+                    <Typography fontWeight={900}>
+                      {bookmark.tip ? formatMoney(bookmark.tip) : ""}
+                    </Typography>
+                    {remove}
+                  </Stack>
+                </Stack>
+                <Alert severity="warning">
+                  {takenDown ? "A moderator took this job down." : "The poster deleted this job."}
+                </Alert>
+              </Stack>
+            </Paper>
+          );
+        }
+
+        const flag = job.moderation ? (
+          <Chip size="small" color="warning" label="Taken down by a moderator" sx={{ alignSelf: "flex-start" }} />
+        ) : !isActive(job) ? (
+          <Chip size="small" color="warning" label="Expired" sx={{ alignSelf: "flex-start" }} />
+        ) : job.status !== "open" ? (
+          <Chip
+            size="small"
+            color="warning"
+            label={`No longer open · ${JOB_STATUS_LABEL[job.status]}`}
+            sx={{ alignSelf: "flex-start" }}
+          />
+        ) : null;
+
+        return <JobCard key={bookmark.id} job={job} action={remove} flag={flag} />;
+      })}
+    </Stack>
+  );
+}
@@ -0,0 +1,147 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  Alert,
+  Box,
+  Chip,
+  CircularProgress,
+  IconButton,
+  Paper,
+  Stack,
+  Typography,
+} from "@mui/material";
+import DeleteIcon from "@mui/icons-material/Delete";
+
+import {
+  NEW_MATCH_CAP,
+  countNewMatches,
+  deleteSavedSearch,
+  describeSearch,
+  listSavedSearches,
+  markSavedSearchOpened,
+} from "../firebase/savedSearches";
+import type { SavedSearch } from "../types/savedSearch";
+
+/** Saved feed filters with a "N new since last visit" count each. */
+export function SavedSearches({ uid }: { uid: string }) {
+  const router = useRouter();
+
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const list = await listSavedSearches(uid);
+        if (cancelled) return;
+        setSearches(list);
+        setLoading(false);
+
+        // Counts trickle in; a failed count just leaves the chip off
+        await Promise.all(
+          list.map(async (s) => {
+            const n = await countNewMatches(s).catch(() => null);
+            if (!cancelled && n !== null) setCounts((prev) => ({ ...prev, [s.id]: n }));
+          })
+        );
+      } catch (e) {
+        if (cancelled) return;
+        setError(e instanceof Error ? e.message : "Failed to load saved searches.");
+        setLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [uid]);
+
+  const onOpen = (s: SavedSearch) => {
+    // Best effort: opening shouldn't wait on the write
+    markSavedSearchOpened(uid, s.id).catch(() => {});
+    router.push(s.query ? `/jobs?${s.query}` : "/jobs");
+  };
+
+  const onDelete = async (s: SavedSearch) => {
+    const ok = window.confirm(`Delete saved search "${s.name}"?`);
+    if (!ok) return;
+
+    try {
+      await deleteSavedSearch(uid, s.id);
+      setSearches((prev) => prev.filter((x) => x.id !== s.id));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to delete saved search.");
+    }
+  };
+
+  if (loading) {
+    return (
+      <Stack direction="row" spacing={2} alignItems="center">
+        <CircularProgress size={22} />
+        <Typography>Loading saved searches...</Typography>
+      </Stack>
+    );
+  }
+
+  return (
+    <Stack spacing={1.5}>
+      {error && <Alert severity="error">{error}</Alert>}
+
+      {searches.length === 0 && (
+        <Typography variant="body2" color="text.secondary">
+          Save a search from the Jobs page to check it here.
+        </Typography>
+      )}
+
+      {searches.map((s) => {
+        const n = counts[s.id];
+
+        return (
+          <Paper
+            key={s.id}
+            variant="outlined"
+            onClick={() => onOpen(s)}
+            sx={{ p: 2, borderRadius: 3, cursor: "pointer" }}
+          >
+            <Stack direction="row" alignItems="center" justifyContent="space-between" spacing={1}>
+              <Box sx={{ minWidth: 0 }}>
+                <Typography fontWeight={800} noWrap>
+                  {s.name || describeSearch(s.query)}
+                </Typography>
+                <Typography variant="body2" color="text.secondary" noWrap>
+                  {describeSearch(s.query)}
+                </Typography>
+              </Box>
+
+              <Stack direction="row" alignItems="center" spacing={0.5}>
+                {typeof n === "number" && n > 0 && (
+                  <Chip
+                    color="primary"
+                    size="small"
+                    label={`${n >= NEW_MATCH_CAP ? `${NEW_MATCH_CAP}+` : n} new`}
+                  />
+                )}
+
+                <IconButton
+                  aria-label="Delete saved search"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onDelete(s);
+                  }}
+                >
+                  <DeleteIcon />
+                </IconButton>
+              </Stack>
+            </Stack>
+          </Paper>
+        );
+      })}
+    </Stack>
+  );
+}
@@ -0,0 +1,23 @@
+"use client";
+
+import Link from "next/link";
+import { Stack, Typography } from "@mui/material";
+
+import { RatingStars, usePublicProfile } from "./RatingSummary";
+
+/** A user's display name linking to their public page, with their rating. */
+export function UserLink({ uid, fallback = "Someone" }: { uid: string; fallback?: string }) {
+  const profile = usePublicProfile(uid);
+  if (profile === undefined) return null;
+
+  return (
+    <Stack direction="row" spacing={1} alignItems="center" flexWrap="wrap" useFlexGap>
+      <Link href={`/users/${uid}`} style={{ color: "inherit" }}>
+        <Typography variant="body2" fontWeight={700}>
+          {profile?.name || fallback}
+        </Typography>
+      </Link>
+      <RatingStars profile={profile} />
+    </Stack>
+  );
+}
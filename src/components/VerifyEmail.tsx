@@ -0,0 +1,91 @@
+"use client";
+
+import { useState } from "react";
+import { usePathname } from "next/navigation";
+import { sendEmailVerification, type User } from "firebase/auth";
+import { Alert, Button, Stack, Typography } from "@mui/material";
+
+import { useAuth } from "../context/AuthContext";
+import { authErrorMessage } from "../firebase/authErrors";
+
+/** Sends the verification link; opening it lands on /auth/action, then `continuePath`. */
+export async function sendVerificationEmail(user: User, continuePath = "/profile"): Promise<void> {
+  await sendEmailVerification(user, { url: `${window.location.origin}${continuePath}` });
+}
+
+/** "Resend" and "I’ve verified" for a signed-in user whose email isn't verified yet. */
+export function VerifyEmailButtons({ continuePath }: { continuePath?: string }) {
+  const { user, refreshUser } = useAuth();
+  const [busy, setBusy] = useState(false);
+  const [note, setNote] = useState<{ severity: "success" | "error" | "info"; msg: string } | null>(null);
+
+  const onResend = async () => {
+    if (!user) return;
+    setBusy(true);
+    setNote(null);
+    try {
+      await sendVerificationEmail(user, continuePath);
+      setNote({ severity: "success", msg: `Sent a new link to ${user.email}.` });
+    } catch (e) {
+      setNote({ severity: "error", msg: authErrorMessage(e, "Couldn’t send the email.") });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const onCheck = async () => {
+    setBusy(true);
+    setNote(null);
+    try {
+      await refreshUser();
+      // reload() updated `user` in place; when verified, callers stop rendering these buttons
+      if (!user?.emailVerified) {
+        setNote({ severity: "info", msg: "Not verified yet. Open the link in the email first." });
+      }
+    } catch (e) {
+      setNote({ severity: "error", msg: authErrorMessage(e, "Couldn’t check your account.") });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Stack spacing={1}>
+      <Stack direction="row" spacing={1}>
+        <Button size="small" variant="outlined" onClick={onResend} disabled={busy}>
+          Resend
+        </Button>
+        <Button size="small" onClick={onCheck} disabled={busy}>
+          I’ve verified
+        </Button>
+      </Stack>
+      {note && (
+        <Alert severity={note.severity} onClose={() => setNote(null)}>
+          {note.msg}
+        </Alert>
+      )}
+    </Stack>
+  );
+}
+
+/**
+ * Site-wide nudge for unverified email accounts. Hidden on /jobs/new, which
+ * shows its own verify-before-posting gate.
+ */
+export function VerifyEmailBanner() {
+  const { user, emailVerified } = useAuth();
+  const pathname = usePathname();
+
+  if (!user?.email || emailVerified || pathname.startsWith("/jobs/new")) return null;
+
+  return (
+    <Alert severity="info" sx={{ mb: 2 }}>
+      <Stack spacing={1}>
+        <Typography variant="body2">
+          Verify {user.email} to post jobs. We sent you a link when you signed up.
+        </Typography>
+        <VerifyEmailButtons />
+      </Stack>
+    </Alert>
+  );
+}
@@ -1,34 +1,72 @@
 "use client";
 
 import React, { createContext, useContext, useEffect, useState } from "react";
-import { onAuthStateChanged, User } from "firebase/auth";
+import { onAuthStateChanged, onIdTokenChanged, User } from "firebase/auth";
 import { auth } from "../firebase/firebase";
+import { syncSession } from "../firebase/session";
 
 type AuthContextType = {
   user: User | null;
   loading: boolean;
+  emailVerified: boolean;
+  isAdmin: boolean; // the `admin` custom claim; moderators get /admin
+  /** Re-reads the signed-in user, e.g. after they verify their email in another tab. */
+  refreshUser: () => Promise<void>;
 };
 
 const AuthContext = createContext<AuthContextType>({
   user: null,
   loading: true,
+  emailVerified: false,
+  isAdmin: false,
+  refreshUser: async () => {},
 });
 
+const hasAdminClaim = (u: User) =>
+  u
+    .getIdTokenResult()
+    .then((t) => t.claims.admin === true)
+    .catch(() => false);
+
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
+  // reload() updates the User in place, so track the flag separately to re-render
+  const [emailVerified, setEmailVerified] = useState(false);
+  const [isAdmin, setIsAdmin] = useState(false);
 
   useEffect(() => {
-    const unsub = onAuthStateChanged(auth, (u) => {
+    const unsub = onAuthStateChanged(auth, async (u) => {
+      // Read from the cached ID token, so `loading` rarely waits on the network
+      const admin = u ? await hasAdminClaim(u) : false;
       setUser(u);
+      setIsAdmin(admin);
+      setEmailVerified(u?.emailVerified ?? false);
       setLoading(false);
     });
 
     return unsub;
   }, []);
 
+  // Keep the server session cookie and claims in step: sign-in, hourly token refresh, sign-out
+  useEffect(() => {
+    return onIdTokenChanged(auth, (u) => {
+      syncSession(u).catch(() => {});
+      if (u) hasAdminClaim(u).then(setIsAdmin);
+    });
+  }, []);
+
+  const refreshUser = async () => {
+    const u = auth.currentUser;
+    if (!u) return;
+    await u.reload();
+    // A fresh ID token carries email_verified to the Firestore rules
+    await u.getIdToken(true);
+    setEmailVerified(u.emailVerified);
+  };
+
   return (
-    <AuthContext.Provider value={{ user, loading }}>
+    <AuthContext.Provider value={{ user, loading, emailVerified, isAdmin, refreshUser }}>
       {children}
     </AuthContext.Provider>
   );
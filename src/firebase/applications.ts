@@ -0,0 +1,143 @@
+import {
+  arrayUnion,
+  collection,
+  collectionGroup,
+  doc,
+  getCountFromServer,
+  getDoc,
+  getDocs,
+  orderBy,
+  query,
+  runTransaction,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  where,
+} from "firebase/firestore";
+import { db } from "./firebase";
+import { deleteInBatches } from "./batch";
+import { applicationConverter, jobConverter } from "./converters";
+import type { Application, ApplicationStatus } from "../types/application";
+import type { Job } from "../types/job";
+
+const applicationsCol = (jobId: string) => collection(db, "jobs", jobId, "applications");
+
+/** Whether the poster took this worker on, for the whole job or for any of its dates. */
+export const wasAccepted = (a: Application) => a.status === "accepted" || a.acceptedOccurrences.length > 0;
+
+export async function getMyApplication(jobId: string, workerUid: string): Promise<Application | null> {
+  const snap = await getDoc(doc(applicationsCol(jobId), workerUid).withConverter(applicationConverter));
+  return snap.exists() ? snap.data() : null;
+}
+
+/** Owner-only (enforced by rules): everyone who responded to a job, oldest first. */
+export async function listApplications(jobId: string): Promise<Application[]> {
+  const snap = await getDocs(
+    query(applicationsCol(jobId).withConverter(applicationConverter), orderBy("createdAt", "asc"))
+  );
+  return snap.docs.map((d) => d.data());
+}
+
+export async function countApplications(jobId: string): Promise<number> {
+  const snap = await getCountFromServer(applicationsCol(jobId));
+  return snap.data().count;
+}
+
+export async function applyToJob(
+  jobId: string,
+  workerUid: string,
+  workerName: string,
+  message: string,
+  occurrences: string[] = []
+): Promise<void> {
+  await setDoc(doc(applicationsCol(jobId), workerUid), {
+    jobId,
+    workerUid,
+    // The poster can't read private profiles, so carry the display name along
+    workerName: workerName.trim(),
+    message: message.trim(),
+    occurrences,
+    acceptedOccurrences: [],
+    status: "pending",
+    createdAt: serverTimestamp(),
+  });
+}
+
+/** Ask for further dates of a recurring job; the poster decides on them afresh. */
+export async function applyForMoreDates(
+  jobId: string,
+  workerUid: string,
+  workerName: string,
+  message: string,
+  occurrences: string[]
+): Promise<void> {
+  await updateDoc(doc(applicationsCol(jobId), workerUid), {
+    workerName: workerName.trim(),
+    message: message.trim(),
+    occurrences,
+    status: "pending",
+  });
+}
+
+/**
+ * Accept or decline, and drop a notification in the applicant's inbox.
+ * Accepting someone for dates of a recurring job marks those dates filled;
+ * it runs in a transaction so two workers can't both get the same date.
+ * Returns the application as decided.
+ */
+export async function decideApplication(
+  job: Job,
+  application: Application,
+  status: Exclude<ApplicationStatus, "pending">
+): Promise<Application> {
+  const jobRef = doc(db, "jobs", job.id).withConverter(jobConverter);
+  const applicationRef = doc(applicationsCol(job.id), application.id).withConverter(applicationConverter);
+
+  return runTransaction(db, async (tx) => {
+    const [jobSnap, applicationSnap] = await Promise.all([tx.get(jobRef), tx.get(applicationRef)]);
+    if (!jobSnap.exists()) throw new Error("Job not found.");
+    if (!applicationSnap.exists()) throw new Error("This worker withdrew their application.");
+
+    // The worker may have asked for other dates since the page loaded
+    const current = applicationSnap.data();
+    const dates = status === "accepted" ? current.occurrences : [];
+
+    if (dates.some((k) => jobSnap.data().filledOccurrences.includes(k))) {
+      throw new Error("Someone is already accepted for some of these dates.");
+    }
+
+    tx.update(applicationRef, {
+      status,
+      decidedAt: serverTimestamp(),
+      ...(dates.length ? { acceptedOccurrences: arrayUnion(...dates) } : {}),
+    });
+    if (dates.length) tx.update(jobRef, { filledOccurrences: arrayUnion(...dates) });
+
+    tx.set(doc(collection(db, "users", application.workerUid, "notifications")), {
+      type: "application",
+      jobId: job.id,
+      jobTitle: job.title,
+      status,
+      createdAt: serverTimestamp(),
+      read: false,
+    });
+
+    return {
+      ...current,
+      status,
+      decidedAt: new Date(),
+      acceptedOccurrences: [...new Set([...current.acceptedOccurrences, ...dates])],
+    };
+  });
+}
+
+export async function deleteJobApplications(jobId: string): Promise<void> {
+  const snap = await getDocs(applicationsCol(jobId));
+  await deleteInBatches(snap.docs.map((d) => d.ref));
+}
+
+/** Withdraw everything a worker applied to (account deletion). */
+export async function deleteWorkerApplications(workerUid: string): Promise<void> {
+  const snap = await getDocs(query(collectionGroup(db, "applications"), where("workerUid", "==", workerUid)));
+  await deleteInBatches(snap.docs.map((d) => d.ref));
+}
@@ -0,0 +1,34 @@
+import { FirebaseError } from "firebase/app";
+
+const AUTH_ERROR_MESSAGES: Record<string, string> = {
+  "auth/invalid-email": "That email address doesn’t look right.",
+  "auth/missing-email": "Enter your email address.",
+  "auth/invalid-credential": "Wrong email or password.",
+  "auth/wrong-password": "Wrong email or password.",
+  "auth/user-not-found": "Wrong email or password.",
+  "auth/user-disabled": "This account has been disabled.",
+  "auth/email-already-in-use": "An account with this email already exists. Try logging in.",
+  "auth/weak-password": "Choose a password with at least 6 characters.",
+  "auth/too-many-requests": "Too many attempts. Wait a few minutes and try again.",
+  "auth/network-request-failed": "Can’t reach the server. Check your connection and try again.",
+  "auth/popup-closed-by-user": "Sign-in was cancelled.",
+  "auth/cancelled-popup-request": "Sign-in was cancelled.",
+  "auth/popup-blocked": "Your browser blocked the sign-in window. Allow pop-ups and try again.",
+  "auth/account-exists-with-different-credential":
+    "An account with this email already exists. Log in with your password instead.",
+  "auth/invalid-phone-number": "Enter a valid phone number, like (555) 123-4567.",
+  "auth/missing-phone-number": "Enter your phone number.",
+  "auth/invalid-verification-code": "That code isn’t right. Check the text and try again.",
+  "auth/code-expired": "That code has expired. Send a new one.",
+  "auth/quota-exceeded": "Too many codes sent. Try again later.",
+  "auth/user-mismatch": "That isn’t the account you’re signed in with.",
+  "auth/requires-recent-login": "For your security, log out and back in, then try again.",
+  "auth/expired-action-code": "This link has expired. Request a new one.",
+  "auth/invalid-action-code": "This link is invalid or has already been used. Request a new one.",
+};
+
+/** A readable message for Firebase Auth failures; other errors keep their own message. */
+export function authErrorMessage(e: unknown, fallback: string): string {
+  if (e instanceof FirebaseError) return AUTH_ERROR_MESSAGES[e.code] ?? fallback;
+  return e instanceof Error ? e.message : fallback;
+}
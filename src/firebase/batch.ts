@@ -0,0 +1,20 @@
+import { writeBatch, type DocumentReference } from "firebase/firestore";
+import { db } from "./firebase";
+
+/** Delete docs in batches of 400-ish (keep under the 500 write limit). */
+export async function deleteInBatches(refs: DocumentReference[]): Promise<void> {
+  let batch = writeBatch(db);
+  let ops = 0;
+
+  for (const ref of refs) {
+    batch.delete(ref);
+    ops += 1;
+    if (ops >= 400) {
+      await batch.commit();
+      batch = writeBatch(db);
+      ops = 0;
+    }
+  }
+
+  if (ops > 0) await batch.commit();
+}
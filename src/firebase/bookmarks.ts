@@ -0,0 +1,71 @@
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  orderBy,
+  query,
+  serverTimestamp,
+  setDoc,
+} from "firebase/firestore";
+import { FirebaseError } from "firebase/app";
+import { db } from "./firebase";
+import { deleteInBatches } from "./batch";
+import { bookmarkConverter } from "./converters";
+import { getJob } from "./jobs";
+import type { Bookmark } from "../types/bookmark";
+import type { Job } from "../types/job";
+
+/**
+ * A bookmark and the job's current state. `job` is null once the poster
+ * deleted it, or while a moderator has it hidden (`takenDown`).
+ */
+export type SavedJob = { bookmark: Bookmark; job: Job | null; takenDown: boolean };
+
+const bookmarksCol = (uid: string) => collection(db, "users", uid, "bookmarks");
+
+/** Most recently saved first. */
+export async function listBookmarks(uid: string): Promise<Bookmark[]> {
+  const snap = await getDocs(
+    query(bookmarksCol(uid).withConverter(bookmarkConverter), orderBy("savedAt", "desc"))
+  );
+  return snap.docs.map((d) => d.data());
+}
+
+async function savedJob(bookmark: Bookmark): Promise<SavedJob> {
+  try {
+    return { bookmark, job: await getJob(bookmark.jobId), takenDown: false };
+  } catch (e) {
+    // Rules let anyone see a job is gone, so a denial means it exists but a
+    // moderator hid it
+    if (e instanceof FirebaseError && e.code === "permission-denied") {
+      return { bookmark, job: null, takenDown: true };
+    }
+    throw e;
+  }
+}
+
+export async function listSavedJobs(uid: string): Promise<SavedJob[]> {
+  const bookmarks = await listBookmarks(uid);
+  return Promise.all(bookmarks.map(savedJob));
+}
+
+export async function addBookmark(uid: string, job: Job): Promise<void> {
+  await setDoc(doc(bookmarksCol(uid), job.id), {
+    jobId: job.id,
+    title: job.title,
+    address: job.address,
+    zip: job.zip,
+    tip: job.tip,
+    savedAt: serverTimestamp(),
+  });
+}
+
+export async function removeBookmark(uid: string, jobId: string): Promise<void> {
+  await deleteDoc(doc(bookmarksCol(uid), jobId));
+}
+
+export async function deleteAllBookmarks(uid: string): Promise<void> {
+  const snap = await getDocs(bookmarksCol(uid));
+  await deleteInBatches(snap.docs.map((d) => d.ref));
+}
@@ -0,0 +1,163 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  increment,
+  limitToLast,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  where,
+  writeBatch,
+  type Unsubscribe,
+} from "firebase/firestore";
+import { db } from "./firebase";
+import { deleteInBatches } from "./batch";
+import { conversationConverter, messageConverter } from "./converters";
+import type { Conversation, Message } from "../types/conversation";
+import type { Job } from "../types/job";
+
+/** Older messages than this aren't loaded into a thread. */
+const MESSAGE_WINDOW = 200;
+
+const conversationsCol = () => collection(db, "conversations");
+const conversationRef = (id: string) => doc(db, "conversations", id);
+const messagesCol = (id: string) => collection(db, "conversations", id, "messages");
+
+// Pending serverTimestamps read as "now" instead of null in local snapshots
+const LIVE = { serverTimestamps: "estimate" } as const;
+
+export const conversationId = (jobId: string, workerUid: string) => `${jobId}_${workerUid}`;
+
+/** The other side of a conversation, from `uid`'s point of view. */
+export const otherParticipant = (c: Conversation, uid: string) =>
+  c.posterUid === uid ? c.workerUid : c.posterUid;
+
+/**
+ * Open (or reuse) the thread between a job's poster and a worker. Either side
+ * can start it: the worker from the job page, the poster from the applicants list.
+ */
+export async function startConversation(
+  job: Job,
+  workerUid: string,
+  workerName: string
+): Promise<string> {
+  const id = conversationId(job.id, workerUid);
+  const ref = conversationRef(id);
+
+  const snap = await getDoc(ref);
+  if (snap.exists()) return id;
+
+  await setDoc(ref, {
+    jobId: job.id,
+    jobTitle: job.title,
+    posterUid: job.userId,
+    workerUid,
+    workerName: workerName.trim(),
+    participants: [job.userId, workerUid],
+    lastMessage: "",
+    lastMessageAt: serverTimestamp(),
+    lastSenderUid: "",
+    unread: { [job.userId]: 0, [workerUid]: 0 },
+    createdAt: serverTimestamp(),
+  });
+  return id;
+}
+
+/** Live list of `uid`'s conversations, most recent activity first. */
+export function subscribeToConversations(
+  uid: string,
+  onChange: (conversations: Conversation[]) => void,
+  onError: (e: Error) => void
+): Unsubscribe {
+  const q = query(
+    conversationsCol().withConverter(conversationConverter),
+    where("participants", "array-contains", uid),
+    orderBy("lastMessageAt", "desc")
+  );
+  return onSnapshot(q, (snap) => onChange(snap.docs.map((d) => d.data(LIVE))), onError);
+}
+
+export function subscribeToConversation(
+  id: string,
+  onChange: (conversation: Conversation | null) => void,
+  onError: (e: Error) => void
+): Unsubscribe {
+  return onSnapshot(
+    conversationRef(id).withConverter(conversationConverter),
+    (snap) => onChange(snap.exists() ? snap.data(LIVE) : null),
+    onError
+  );
+}
+
+/** Live messages in a thread, oldest first (the latest MESSAGE_WINDOW of them). */
+export function subscribeToMessages(
+  id: string,
+  onChange: (messages: Message[]) => void,
+  onError: (e: Error) => void
+): Unsubscribe {
+  const q = query(
+    messagesCol(id).withConverter(messageConverter),
+    orderBy("createdAt", "asc"),
+    limitToLast(MESSAGE_WINDOW)
+  );
+  return onSnapshot(q, (snap) => onChange(snap.docs.map((d) => d.data(LIVE))), onError);
+}
+
+/** Total unread messages across `uid`'s conversations, for the nav badge. */
+export function subscribeToUnreadCount(
+  uid: string,
+  onChange: (count: number) => void,
+  onError: (e: Error) => void
+): Unsubscribe {
+  return subscribeToConversations(
+    uid,
+    (list) => onChange(list.reduce((n, c) => n + (c.unread[uid] ?? 0), 0)),
+    onError
+  );
+}
+
+export async function sendMessage(
+  conversation: Conversation,
+  senderUid: string,
+  text: string
+): Promise<void> {
+  const body = text.trim();
+  if (!body) return;
+
+  const batch = writeBatch(db);
+
+  batch.set(doc(messagesCol(conversation.id)), {
+    senderUid,
+    text: body,
+    createdAt: serverTimestamp(),
+  });
+
+  batch.update(conversationRef(conversation.id), {
+    lastMessage: body,
+    lastMessageAt: serverTimestamp(),
+    lastSenderUid: senderUid,
+    [`unread.${otherParticipant(conversation, senderUid)}`]: increment(1),
+  });
+
+  await batch.commit();
+}
+
+export async function markConversationRead(id: string, uid: string): Promise<void> {
+  await updateDoc(conversationRef(id), { [`unread.${uid}`]: 0 });
+}
+
+/** Account deletion: threads go for both sides, messages first. */
+export async function deleteUserConversations(uid: string): Promise<void> {
+  const snap = await getDocs(query(conversationsCol(), where("participants", "array-contains", uid)));
+
+  for (const d of snap.docs) {
+    const messages = await getDocs(messagesCol(d.id));
+    await deleteInBatches(messages.docs.map((m) => m.ref));
+  }
+  await deleteInBatches(snap.docs.map((d) => d.ref));
+}
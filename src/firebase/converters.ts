@@ -0,0 +1,467 @@
+import type {
+  DocumentData,
+  FirestoreDataConverter,
+  QueryDocumentSnapshot,
+  SnapshotOptions,
+  WithFieldValue,
+} from "firebase/firestore";
+import type { Application, ApplicationStatus } from "../types/application";
+import type { Bookmark } from "../types/bookmark";
+import type { Conversation, Message } from "../types/conversation";
+import type {
+  Job,
+  JobContact,
+  JobPhoto,
+  JobRecurrence,
+  JobStatus,
+  RecurrenceFrequency,
+} from "../types/job";
+import type { JobDraft } from "../types/jobDraft";
+import type {
+  AuditEntry,
+  JobModeration,
+  ModerationAction,
+  Suspension,
+} from "../types/moderation";
+import type { AppNotification } from "../types/notification";
+import type { Review } from "../types/review";
+import type { SavedSearch } from "../types/savedSearch";
+import type { PublicProfile, UserProfile } from "../types/userProfile";
+import { isJobCategory, isSubcategoryOf } from "../utils/categories";
+import type { LatLng } from "../utils/geo";
+import { JOB_STATUSES, jobExpiry } from "../utils/jobs";
+import { RECURRENCE_FREQUENCIES } from "../utils/recurrence";
+import { jobKeywords } from "../utils/search";
+
+const str = (v: unknown) => (typeof v === "string" ? v : "");
+const status = (v: unknown): ApplicationStatus =>
+  v === "accepted" || v === "declined" ? v : "pending";
+// Jobs posted before the lifecycle existed are open
+const jobStatus = (v: unknown): JobStatus =>
+  JOB_STATUSES.includes(v as JobStatus) ? (v as JobStatus) : "open";
+const num = (v: unknown) => (typeof v === "number" && Number.isFinite(v) ? v : undefined);
+const strings = (v: unknown): string[] =>
+  Array.isArray(v) ? v.filter((x): x is string => typeof x === "string") : [];
+
+/** Firestore Timestamp (or anything with toDate) -> Date. */
+export function tsToDate(ts: unknown): Date | null {
+  try {
+    if (!ts) return null;
+    if (ts instanceof Date) return ts;
+    const t = ts as { toDate?: () => Date };
+    if (typeof t.toDate === "function") return t.toDate();
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Older jobs stored coordinates in several shapes (GeoPoint-ish `location`,
+ * top-level lat/lng, latitude/longitude). Collapse them all to `{lat, lng}`.
+ */
+function coordsOf(data: DocumentData): LatLng | null {
+  const loc = data.location;
+
+  if (loc && num(loc.latitude) !== undefined && num(loc.longitude) !== undefined) {
+    return { lat: loc.latitude, lng: loc.longitude };
+  }
+
+  if (loc && num(loc.lat) !== undefined && num(loc.lng) !== undefined) {
+    return { lat: loc.lat, lng: loc.lng };
+  }
+
+  if (num(data.latitude) !== undefined && num(data.longitude) !== undefined) {
+    return { lat: data.latitude, lng: data.longitude };
+  }
+
+  if (num(data.lat) !== undefined && num(data.lng) !== undefined) {
+    return { lat: data.lat, lng: data.lng };
+  }
+
+  return null;
+}
+
+/** Strip the client-only `id` key; Firestore converts Dates to Timestamps itself. */
+function withoutId<T extends { id?: unknown }>(model: T): DocumentData {
+  const data: Partial<T> = { ...model };
+  delete data.id;
+  return data;
+}
+
+function photosOf(v: unknown): JobPhoto[] {
+  if (!Array.isArray(v)) return [];
+
+  return v
+    .filter((p) => p && str(p.id) && str(p.url))
+    .map((p) => ({
+      id: str(p.id),
+      url: str(p.url),
+      thumbUrl: str(p.thumbUrl) || str(p.url),
+      width: num(p.width) ?? 0,
+      height: num(p.height) ?? 0,
+    }));
+}
+
+const weekdaysOf = (v: unknown): number[] =>
+  Array.isArray(v)
+    ? [...new Set(v.filter((d): d is number => Number.isInteger(d) && d >= 0 && d <= 6))].sort(
+        (a, b) => a - b
+      )
+    : [];
+
+const frequencyOf = (v: unknown): RecurrenceFrequency | null =>
+  RECURRENCE_FREQUENCIES.includes(v as RecurrenceFrequency) ? (v as RecurrenceFrequency) : null;
+
+function recurrenceOf(v: unknown): JobRecurrence | null {
+  if (!v || typeof v !== "object") return null;
+  const r = v as DocumentData;
+  const startDate = tsToDate(r.startDate);
+  const frequency = frequencyOf(r.frequency);
+  if (!startDate || !frequency) return null;
+
+  return {
+    frequency,
+    weekdays: weekdaysOf(r.weekdays),
+    startDate,
+    until: tsToDate(r.until),
+  };
+}
+
+function moderationOf(v: unknown): JobModeration | null {
+  if (!v || typeof v !== "object") return null;
+  const m = v as DocumentData;
+
+  return {
+    reason: str(m.reason),
+    moderatorUid: str(m.moderatorUid),
+    hiddenAt: tsToDate(m.hiddenAt),
+  };
+}
+
+/** Contact fields from the private contact doc (or a legacy public job doc). */
+export function contactOf(data: DocumentData): JobContact {
+  const contactEmail = str(data.contactEmail).trim();
+  const contactPhone = str(data.contactPhone).trim();
+
+  return {
+    ...(contactEmail ? { contactEmail } : {}),
+    ...(contactPhone ? { contactPhone } : {}),
+  };
+}
+
+export const jobConverter: FirestoreDataConverter<Job> = {
+  toFirestore(job: WithFieldValue<Job>): DocumentData {
+    return withoutId(job);
+  },
+
+  fromFirestore(snap: QueryDocumentSnapshot, options?: SnapshotOptions): Job {
+    const d = snap.data(options);
+    const standingOffer = !!d.standingOffer;
+    const endDate = tsToDate(d.endDate);
+    const recurrence = recurrenceOf(d.recurrence);
+    const title = str(d.title);
+    const description = str(d.description);
+    const category = isJobCategory(d.category) ? d.category : null;
+
+    return {
+      id: snap.id,
+      userId: str(d.userId),
+      title,
+      description,
+      category,
+      subcategory: isSubcategoryOf(category, d.subcategory) ? d.subcategory : null,
+      address: str(d.address),
+      zip: str(d.zip),
+      contactAccess: d.contactAccess === "accepted" ? "accepted" : "signedIn",
+      location: coordsOf(d),
+      // `tip` replaced the legacy `pay` field
+      tip: num(d.tip) ?? num(d.pay) ?? 0,
+      standingOffer,
+      endDate,
+      recurrence,
+      // Jobs posted before expiresAt existed fall back to the derived value
+      expiresAt:
+        d.expiresAt === undefined
+          ? jobExpiry({ standingOffer, endDate, recurrence })
+          : tsToDate(d.expiresAt),
+      creationDate: tsToDate(d.creationDate),
+      updatedAt: tsToDate(d.updatedAt),
+      keywords: Array.isArray(d.keywords) ? d.keywords : jobKeywords({ title, description }),
+      status: jobStatus(d.status),
+      statusChangedAt: tsToDate(d.statusChangedAt),
+      photos: photosOf(d.photos),
+      filledOccurrences: strings(d.filledOccurrences),
+      duplicatedFrom: str(d.duplicatedFrom) || null,
+      moderation: moderationOf(d.moderation),
+    };
+  },
+};
+
+export const userProfileConverter: FirestoreDataConverter<UserProfile> = {
+  toFirestore(profile: WithFieldValue<UserProfile>): DocumentData {
+    return { ...profile };
+  },
+
+  fromFirestore(snap: QueryDocumentSnapshot, options?: SnapshotOptions): UserProfile {
+    const d = snap.data(options);
+
+    return {
+      uid: snap.id,
+      name: str(d.name),
+      phone: str(d.phone),
+      address: str(d.address),
+      zip: str(d.zip),
+      createdAt: tsToDate(d.createdAt),
+      updatedAt: tsToDate(d.updatedAt),
+    };
+  },
+};
+
+export const publicProfileConverter: FirestoreDataConverter<PublicProfile> = {
+  toFirestore(profile: WithFieldValue<PublicProfile>): DocumentData {
+    return { ...profile };
+  },
+
+  fromFirestore(snap: QueryDocumentSnapshot, options?: SnapshotOptions): PublicProfile {
+    const d = snap.data(options);
+
+    return {
+      uid: snap.id,
+      name: str(d.name),
+      memberSince: tsToDate(d.memberSince),
+      ratingSum: num(d.ratingSum) ?? 0,
+      ratingCount: num(d.ratingCount) ?? 0,
+    };
+  },
+};
+
+export const savedSearchConverter: FirestoreDataConverter<SavedSearch> = {
+  toFirestore(search: WithFieldValue<SavedSearch>): DocumentData {
+    return withoutId(search);
+  },
+
+  fromFirestore(snap: QueryDocumentSnapshot, options?: SnapshotOptions): SavedSearch {
+    const d = snap.data(options);
+
+    return {
+      id: snap.id,
+      name: str(d.name),
+      query: str(d.query),
+      createdAt: tsToDate(d.createdAt),
+      lastOpenedAt: tsToDate(d.lastOpenedAt),
+    };
+  },
+};
+
+export const applicationConverter: FirestoreDataConverter<Application> = {
+  toFirestore(application: WithFieldValue<Application>): DocumentData {
+    return withoutId(application);
+  },
+
+  fromFirestore(snap: QueryDocumentSnapshot, options?: SnapshotOptions): Application {
+    const d = snap.data(options);
+
+    return {
+      id: snap.id,
+      jobId: str(d.jobId),
+      workerUid: str(d.workerUid) || snap.id,
+      workerName: str(d.workerName),
+      message: str(d.message),
+      occurrences: strings(d.occurrences),
+      acceptedOccurrences: strings(d.acceptedOccurrences),
+      status: status(d.status),
+      createdAt: tsToDate(d.createdAt),
+      decidedAt: tsToDate(d.decidedAt),
+    };
+  },
+};
+
+export const notificationConverter: FirestoreDataConverter<AppNotification> = {
+  toFirestore(notification: WithFieldValue<AppNotification>): DocumentData {
+    return withoutId(notification);
+  },
+
+  fromFirestore(snap: QueryDocumentSnapshot, options?: SnapshotOptions): AppNotification {
+    const d = snap.data(options);
+
+    return {
+      id: snap.id,
+      type: "application",
+      jobId: str(d.jobId),
+      jobTitle: str(d.jobTitle),
+      status: status(d.status),
+      createdAt: tsToDate(d.createdAt),
+      read: !!d.read,
+    };
+  },
+};
+
+export const conversationConverter: FirestoreDataConverter<Conversation> = {
+  toFirestore(conversation: WithFieldValue<Conversation>): DocumentData {
+    return withoutId(conversation);
+  },
+
+  fromFirestore(snap: QueryDocumentSnapshot, options?: SnapshotOptions): Conversation {
+    const d = snap.data(options);
+    const unread: Record<string, number> = {};
+    for (const [uid, n] of Object.entries(d.unread ?? {})) unread[uid] = num(n) ?? 0;
+
+    return {
+      id: snap.id,
+      jobId: str(d.jobId),
+      jobTitle: str(d.jobTitle),
+      posterUid: str(d.posterUid),
+      workerUid: str(d.workerUid),
+      workerName: str(d.workerName),
+      participants: Array.isArray(d.participants) ? d.participants : [],
+      lastMessage: str(d.lastMessage),
+      lastMessageAt: tsToDate(d.lastMessageAt),
+      lastSenderUid: str(d.lastSenderUid),
+      unread,
+      createdAt: tsToDate(d.createdAt),
+    };
+  },
+};
+
+export const messageConverter: FirestoreDataConverter<Message> = {
+  toFirestore(message: WithFieldValue<Message>): DocumentData {
+    return withoutId(message);
+  },
+
+  fromFirestore(snap: QueryDocumentSnapshot, options?: SnapshotOptions): Message {
+    const d = snap.data(options);
+
+    return {
+      id: snap.id,
+      senderUid: str(d.senderUid),
+      text: str(d.text),
+      createdAt: tsToDate(d.createdAt),
+    };
+  },
+};
+
+export const reviewConverter: FirestoreDataConverter<Review> = {
+  toFirestore(review: WithFieldValue<Review>): DocumentData {
+    return withoutId(review);
+  },
+
+  fromFirestore(snap: QueryDocumentSnapshot, options?: SnapshotOptions): Review {
+    const d = snap.data(options);
+
+    return {
+      id: snap.id,
+      jobId: str(d.jobId),
+      jobTitle: str(d.jobTitle),
+      reviewerUid: str(d.reviewerUid),
+      reviewerName: str(d.reviewerName),
+      revieweeUid: str(d.revieweeUid),
+      rating: num(d.rating) ?? 0,
+      text: str(d.text),
+      createdAt: tsToDate(d.createdAt),
+    };
+  },
+};
+
+export const jobDraftConverter: FirestoreDataConverter<JobDraft> = {
+  toFirestore(draft: WithFieldValue<JobDraft>): DocumentData {
+    return withoutId(draft);
+  },
+
+  fromFirestore(snap: QueryDocumentSnapshot, options?: SnapshotOptions): JobDraft {
+    const d = snap.data(options);
+    const f: DocumentData = d.fields ?? {};
+
+    return {
+      id: snap.id,
+      fields: {
+        title: str(f.title),
+        description: str(f.description),
+        category: isJobCategory(f.category) ? f.category : "",
+        subcategory: str(f.subcategory),
+        address: str(f.address),
+        zip: str(f.zip),
+        contactEmail: str(f.contactEmail),
+        contactPhone: str(f.contactPhone),
+        contactAccess: f.contactAccess === "accepted" ? "accepted" : "signedIn",
+        tipText: str(f.tipText),
+        standingOffer: !!f.standingOffer,
+        endDate: str(f.endDate),
+        repeat: frequencyOf(f.repeat) ?? "none",
+        weekdays: weekdaysOf(f.weekdays),
+        startDate: str(f.startDate),
+        until: str(f.until),
+      },
+      duplicatedFrom: str(d.duplicatedFrom) || null,
+      updatedAt: tsToDate(d.updatedAt),
+    };
+  },
+};
+
+export const bookmarkConverter: FirestoreDataConverter<Bookmark> = {
+  toFirestore(bookmark: WithFieldValue<Bookmark>): DocumentData {
+    return withoutId(bookmark);
+  },
+
+  fromFirestore(snap: QueryDocumentSnapshot, options?: SnapshotOptions): Bookmark {
+    const d = snap.data(options);
+
+    return {
+      id: snap.id,
+      jobId: str(d.jobId) || snap.id,
+      title: str(d.title),
+      address: str(d.address),
+      zip: str(d.zip),
+      tip: num(d.tip) ?? 0,
+      savedAt: tsToDate(d.savedAt),
+    };
+  },
+};
+
+export const suspensionConverter: FirestoreDataConverter<Suspension> = {
+  toFirestore(suspension: WithFieldValue<Suspension>): DocumentData {
+    return { ...suspension };
+  },
+
+  fromFirestore(snap: QueryDocumentSnapshot, options?: SnapshotOptions): Suspension {
+    const d = snap.data(options);
+
+    return {
+      uid: snap.id,
+      name: str(d.name),
+      reason: str(d.reason),
+      moderatorUid: str(d.moderatorUid),
+      suspendedAt: tsToDate(d.suspendedAt),
+    };
+  },
+};
+
+const MODERATION_ACTIONS: ModerationAction[] = [
+  "hideJob",
+  "unhideJob",
+  "removeJob",
+  "suspendUser",
+  "unsuspendUser",
+];
+
+export const auditEntryConverter: FirestoreDataConverter<AuditEntry> = {
+  toFirestore(entry: WithFieldValue<AuditEntry>): DocumentData {
+    return withoutId(entry);
+  },
+
+  fromFirestore(snap: QueryDocumentSnapshot, options?: SnapshotOptions): AuditEntry {
+    const d = snap.data(options);
+
+    return {
+      id: snap.id,
+      // Never guess: an unknown action shown as a real one would misreport the trail
+      action: MODERATION_ACTIONS.includes(d.action) ? d.action : null,
+      targetType: d.targetType === "user" ? "user" : "job",
+      targetId: str(d.targetId),
+      targetLabel: str(d.targetLabel),
+      reason: str(d.reason),
+      moderatorUid: str(d.moderatorUid),
+      createdAt: tsToDate(d.createdAt),
+    };
+  },
+};
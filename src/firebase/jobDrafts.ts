@@ -0,0 +1,51 @@
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  orderBy,
+  query,
+  serverTimestamp,
+  setDoc,
+} from "firebase/firestore";
+import { db } from "./firebase";
+import { deleteInBatches } from "./batch";
+import { jobDraftConverter } from "./converters";
+import type { JobDraft, JobDraftFields } from "../types/jobDraft";
+
+const draftsCol = (uid: string) => collection(db, "users", uid, "jobDrafts");
+
+/** An id for a draft that hasn't been saved yet, so every autosave lands on the same doc. */
+export function newJobDraftId(uid: string): string {
+  return doc(draftsCol(uid)).id;
+}
+
+/** Most recently edited first. */
+export async function listJobDrafts(uid: string): Promise<JobDraft[]> {
+  const snap = await getDocs(
+    query(draftsCol(uid).withConverter(jobDraftConverter), orderBy("updatedAt", "desc"))
+  );
+  return snap.docs.map((d) => d.data());
+}
+
+export async function saveJobDraft(
+  uid: string,
+  id: string,
+  fields: JobDraftFields,
+  duplicatedFrom: string | null
+): Promise<void> {
+  await setDoc(doc(draftsCol(uid), id), {
+    fields,
+    duplicatedFrom,
+    updatedAt: serverTimestamp(),
+  });
+}
+
+export async function deleteJobDraft(uid: string, id: string): Promise<void> {
+  await deleteDoc(doc(draftsCol(uid), id));
+}
+
+export async function deleteAllJobDrafts(uid: string): Promise<void> {
+  const snap = await getDocs(draftsCol(uid));
+  await deleteInBatches(snap.docs.map((d) => d.ref));
+}
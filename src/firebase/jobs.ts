@@ -0,0 +1,386 @@
+import {
+  and,
+  collection,
+  deleteDoc,
+  deleteField,
+  doc,
+  endAt,
+  getCountFromServer,
+  getDoc,
+  getDocs,
+  limit,
+  or,
+  orderBy,
+  query,
+  serverTimestamp,
+  startAfter,
+  startAt,
+  Timestamp,
+  updateDoc,
+  where,
+  writeBatch,
+  type QueryDocumentSnapshot,
+  type QuerySnapshot,
+} from "firebase/firestore";
+import { geohashQueryBounds } from "geofire-common";
+import { db } from "./firebase";
+import { deleteInBatches } from "./batch";
+import { deleteJobApplications } from "./applications";
+import { contactOf, jobConverter } from "./converters";
+import { deleteJobPhotos } from "./photos";
+import type { Job, JobContact, JobFields, JobStatus } from "../types/job";
+import type { JobCategory } from "../utils/categories";
+import { geohashOf, haversineMiles, METERS_PER_MILE, type LatLng } from "../utils/geo";
+import { canTransition, isActive, JOB_STATUS_LABEL, jobExpiry } from "../utils/jobs";
+import { jobKeywords, matchesTerms, type SearchTerm } from "../utils/search";
+
+export type JobCursor = QueryDocumentSnapshot<Job>;
+
+export type JobsPage = {
+  jobs: Job[];
+  cursor: JobCursor | null;
+  hasMore: boolean;
+};
+
+export type NearbyJob = { job: Job; miles: number };
+
+const jobsCol = () => collection(db, "jobs").withConverter(jobConverter);
+const jobRef = (id: string) => doc(db, "jobs", id);
+const contactRef = (jobId: string) => doc(db, "jobs", jobId, "private", "contact");
+
+const locationFields = (c: LatLng) => ({
+  location: { lat: c.lat, lng: c.lng },
+  geohash: geohashOf(c),
+});
+
+/**
+ * Null when the job doesn't exist. Rules refuse hidden jobs to everyone but
+ * their poster and moderators, so expect permission-denied for those.
+ */
+export async function getJob(id: string): Promise<Job | null> {
+  const snap = await getDoc(jobRef(id).withConverter(jobConverter));
+  return snap.exists() ? snap.data() : null;
+}
+
+/**
+ * A job's email/phone. Rules only let signed-in users read it (or only the
+ * workers the poster accepted), so expect permission-denied otherwise.
+ */
+export async function getJobContact(jobId: string): Promise<JobContact> {
+  const snap = await getDoc(contactRef(jobId));
+  return snap.exists() ? contactOf(snap.data()) : {};
+}
+
+/**
+ * Jobs that are still live: open, not hidden by a moderator, and either
+ * standing offers (`expiresAt == null`) or expiring in the future. Rules only
+ * pass queries that exclude hidden jobs, hence the `moderation` filter. Each
+ * branch of the `or` needs its own composite index: (status, moderation,
+ * expiresAt, creationDate desc) for the equality and (status, moderation,
+ * creationDate desc, expiresAt) for the range, since Firestore sorts by the
+ * inequality field after the explicit order. The category and keyword
+ * filters need the same pair with their field added.
+ */
+const activeJobs = (now: Date) =>
+  and(
+    where("status", "==", "open"),
+    where("moderation", "==", null),
+    or(where("expiresAt", "==", null), where("expiresAt", ">", Timestamp.fromDate(now)))
+  );
+
+/**
+ * The Firestore filter for a feed query plus the search terms left to check
+ * here. Categories (`in`) and the most selective term (`array-contains-any`)
+ * can't share one query under Firestore's disjunction limit, so with a
+ * category filter every term is checked client-side instead.
+ */
+function feedFilter(now: Date, terms: SearchTerm[], categories: JobCategory[]) {
+  if (categories.length) {
+    return {
+      filter: and(activeJobs(now), where("category", "in", categories)),
+      rest: terms,
+    };
+  }
+
+  const [first, ...rest] = terms;
+  return {
+    filter: first
+      ? and(activeJobs(now), where("keywords", "array-contains-any", first.variants))
+      : activeJobs(now),
+    rest,
+  };
+}
+
+/**
+ * Newest-first page of active jobs in the public feed. Pass the previous
+ * cursor to continue. Expired jobs are filtered by the query itself, so every
+ * page is full until the feed runs out.
+ *
+ * With search terms, Firestore matches the most selective term against the
+ * `keywords` index and the remaining terms are checked here, scanning ahead
+ * until the page is full. A category filter always runs in Firestore.
+ */
+export async function fetchJobsPage(
+  cursor: JobCursor | null,
+  pageSize: number,
+  terms: SearchTerm[] = [],
+  categories: JobCategory[] = []
+): Promise<JobsPage> {
+  const { filter, rest } = feedFilter(new Date(), terms, categories);
+
+  const matched: JobCursor[] = [];
+  let scanFrom = cursor;
+  let hasMore = false;
+
+  for (;;) {
+    const snap = await getDocs(
+      query(
+        jobsCol(),
+        filter,
+        orderBy("creationDate", "desc"),
+        ...(scanFrom ? [startAfter(scanFrom)] : []),
+        // One extra doc tells us whether another page exists
+        limit(pageSize + 1)
+      )
+    );
+
+    for (const d of snap.docs) {
+      if (!matchesTerms(d.data().keywords, rest)) continue;
+      if (matched.length === pageSize) {
+        hasMore = true;
+        break;
+      }
+      matched.push(d);
+    }
+
+    if (hasMore || snap.docs.length <= pageSize) break;
+    scanFrom = snap.docs[snap.docs.length - 1];
+  }
+
+  return {
+    jobs: matched.map((d) => d.data()),
+    cursor: matched.length ? matched[matched.length - 1] : cursor,
+    hasMore,
+  };
+}
+
+/**
+ * Active jobs posted after `since` that match the search terms and
+ * categories, newest first, up to `max`. Used for "new since last visit"
+ * counts. Terms left over from the query are checked here, scanning ahead
+ * until `max` match or the jobs run out. The `creationDate` range rides on
+ * the feed's indexes: it sorts on that field already, so no extra composite
+ * index is needed.
+ */
+export async function fetchJobsSince(
+  since: Date,
+  terms: SearchTerm[],
+  max: number,
+  categories: JobCategory[] = []
+): Promise<Job[]> {
+  const { filter, rest } = feedFilter(new Date(), terms, categories);
+  const matched: Job[] = [];
+  let scanFrom: JobCursor | null = null;
+
+  for (;;) {
+    const snap: QuerySnapshot<Job> = await getDocs(
+      query(
+        jobsCol(),
+        and(filter, where("creationDate", ">", Timestamp.fromDate(since))),
+        orderBy("creationDate", "desc"),
+        ...(scanFrom ? [startAfter(scanFrom)] : []),
+        limit(max)
+      )
+    );
+
+    for (const d of snap.docs) {
+      if (matchesTerms(d.data().keywords, rest)) matched.push(d.data());
+      if (matched.length === max) return matched;
+    }
+
+    if (snap.docs.length < max) return matched;
+    scanFrom = snap.docs[snap.docs.length - 1];
+  }
+}
+
+/**
+ * Every active job within `radiusMiles` of `origin`, nearest first. Scans the
+ * open jobs in the geohash cells covering the circle, then drops expired jobs
+ * and the corner hits that fall outside it. Callers page through the
+ * (complete) result themselves. Needs (status, moderation, geohash) and
+ * (status, moderation, category, geohash) indexes.
+ */
+export async function fetchJobsNear(
+  origin: LatLng,
+  radiusMiles: number,
+  categories: JobCategory[] = []
+): Promise<NearbyJob[]> {
+  const bounds = geohashQueryBounds([origin.lat, origin.lng], radiusMiles * METERS_PER_MILE);
+  const inCategories = categories.length ? [where("category", "in", categories)] : [];
+
+  const snaps = await Promise.all(
+    bounds.map(([start, end]) =>
+      getDocs(
+        query(
+          jobsCol(),
+          where("status", "==", "open"),
+          where("moderation", "==", null),
+          ...inCategories,
+          orderBy("geohash"),
+          startAt(start),
+          endAt(end)
+        )
+      )
+    )
+  );
+
+  const now = new Date();
+  const seen = new Set<string>();
+  const out: NearbyJob[] = [];
+
+  for (const snap of snaps) {
+    for (const d of snap.docs) {
+      if (seen.has(d.id)) continue;
+      seen.add(d.id);
+
+      const job = d.data();
+      if (!job.location || !isActive(job, now)) continue;
+
+      const miles = haversineMiles(origin, job.location);
+      if (miles <= radiusMiles) out.push({ job, miles });
+    }
+  }
+
+  return out.sort((a, b) => a.miles - b.miles);
+}
+
+export async function listUserJobs(uid: string): Promise<Job[]> {
+  const q = query(jobsCol(), where("userId", "==", uid), orderBy("creationDate", "desc"));
+  const snap = await getDocs(q);
+
+  return snap.docs.map((d) => d.data());
+}
+
+/** A poster's jobs that are still in the public feed, newest first. */
+export async function listOpenUserJobs(uid: string): Promise<Job[]> {
+  const snap = await getDocs(
+    query(
+      jobsCol(),
+      where("userId", "==", uid),
+      where("status", "==", "open"),
+      where("moderation", "==", null),
+      orderBy("creationDate", "desc")
+    )
+  );
+  const now = new Date();
+  return snap.docs.map((d) => d.data()).filter((job) => isActive(job, now));
+}
+
+/** How many jobs a user has posted, and how many of those got done. Hidden jobs don't count. */
+export async function countUserJobs(uid: string): Promise<{ posted: number; completed: number }> {
+  const mine = query(
+    collection(db, "jobs"),
+    where("userId", "==", uid),
+    where("moderation", "==", null)
+  );
+  const [posted, completed] = await Promise.all([
+    getCountFromServer(mine),
+    getCountFromServer(query(mine, where("status", "==", "completed"))),
+  ]);
+  return { posted: posted.data().count, completed: completed.data().count };
+}
+
+/** Post a new job. `duplicatedFrom` records the earlier job it was "posted again" from. */
+export async function createJob(
+  userId: string,
+  fields: JobFields,
+  location: LatLng | null,
+  duplicatedFrom: string | null = null
+): Promise<string> {
+  const { contactEmail, contactPhone, ...rest } = fields;
+  const ref = doc(collection(db, "jobs"));
+  const batch = writeBatch(db);
+
+  batch.set(ref, {
+    userId,
+    ...rest,
+    ...(location ? locationFields(location) : {}),
+    expiresAt: jobExpiry(fields),
+    keywords: jobKeywords(fields),
+    status: "open",
+    photos: [], // uploaded once the job exists, see saveJobPhotos
+    filledOccurrences: [],
+    duplicatedFrom,
+    moderation: null, // queries match on it, see activeJobs
+    creationDate: serverTimestamp(),
+  });
+  // Firestore rejects undefined, so only write contact fields that exist
+  batch.set(contactRef(ref.id), contactOf({ contactEmail, contactPhone }));
+
+  await batch.commit();
+  return ref.id;
+}
+
+/**
+ * Overwrite the editable fields of a job. `location` is left untouched when
+ * undefined and removed when null (e.g. the new ZIP didn't geocode).
+ */
+export async function updateJob(
+  id: string,
+  fields: JobFields,
+  location?: LatLng | null
+): Promise<void> {
+  const { contactEmail, contactPhone, ...rest } = fields;
+  const batch = writeBatch(db);
+
+  batch.update(jobRef(id), {
+    ...rest,
+    ...(location === undefined
+      ? {}
+      : location
+      ? locationFields(location)
+      : { location: deleteField(), geohash: deleteField() }),
+    expiresAt: jobExpiry(fields),
+    keywords: jobKeywords(fields),
+    updatedAt: serverTimestamp(),
+  });
+  batch.set(contactRef(id), contactOf({ contactEmail, contactPhone }));
+
+  await batch.commit();
+}
+
+/** Move a job along its lifecycle; see JOB_STATUS_TRANSITIONS. */
+export async function setJobStatus(job: Job, status: JobStatus): Promise<void> {
+  if (!canTransition(job.status, status)) {
+    throw new Error(
+      `A job that is ${JOB_STATUS_LABEL[job.status].toLowerCase()} can't be marked ${JOB_STATUS_LABEL[status].toLowerCase()}.`
+    );
+  }
+
+  await updateDoc(jobRef(job.id), {
+    status,
+    statusChangedAt: serverTimestamp(),
+  });
+}
+
+export async function deleteJob(id: string): Promise<void> {
+  // Subcollections outlive their parent doc, so clear them first
+  await deleteJobApplications(id);
+  await deleteJobPhotos(id);
+  await deleteDoc(contactRef(id));
+  await deleteDoc(jobRef(id));
+}
+
+export async function deleteAllUserJobs(uid: string): Promise<void> {
+  const snap = await getDocs(query(collection(db, "jobs"), where("userId", "==", uid)));
+
+  if (snap.empty) return;
+
+  for (const d of snap.docs) {
+    await deleteJobApplications(d.id);
+    await deleteJobPhotos(d.id);
+  }
+  // Contact docs first: rules check the parent job while deleting them
+  await deleteInBatches(snap.docs.map((d) => contactRef(d.id)));
+  await deleteInBatches(snap.docs.map((d) => d.ref));
+}
@@ -0,0 +1,241 @@
+import {
+  collection,
+  doc,
+  endAt,
+  getDoc,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  serverTimestamp,
+  startAt,
+  where,
+  writeBatch,
+  type WriteBatch,
+} from "firebase/firestore";
+import { db } from "./firebase";
+import {
+  auditEntryConverter,
+  jobConverter,
+  suspensionConverter,
+  userProfileConverter,
+} from "./converters";
+import { deleteJob } from "./jobs";
+import type { Job } from "../types/job";
+import type { AuditEntry, ModerationAction, Suspension } from "../types/moderation";
+import type { UserProfile } from "../types/userProfile";
+import { matchesTerms, searchTerms } from "../utils/search";
+
+/**
+ * Moderator tools behind /admin. Rules only allow these for accounts with the
+ * `admin` custom claim, and every action writes an auditLog entry alongside it.
+ */
+
+/** How many jobs/users/log entries the console loads per list or search. */
+export const MODERATION_LIST_MAX = 200;
+
+const jobsCol = () => collection(db, "jobs").withConverter(jobConverter);
+const usersCol = () => collection(db, "users").withConverter(userProfileConverter);
+const jobRef = (id: string) => doc(db, "jobs", id);
+const suspensionRef = (uid: string) => doc(db, "suspensions", uid);
+const auditCol = () => collection(db, "auditLog");
+
+type AuditTarget = Pick<AuditEntry, "targetType" | "targetId" | "targetLabel">;
+
+function logAction(
+  batch: WriteBatch,
+  moderatorUid: string,
+  action: ModerationAction,
+  target: AuditTarget,
+  reason: string
+) {
+  batch.set(doc(auditCol()), {
+    action,
+    ...target,
+    reason: reason.trim(),
+    moderatorUid,
+    createdAt: serverTimestamp(),
+  });
+}
+
+const jobTarget = (job: Job): AuditTarget => ({
+  targetType: "job",
+  targetId: job.id,
+  targetLabel: job.title,
+});
+
+const userTarget = (uid: string, name: string): AuditTarget => ({
+  targetType: "user",
+  targetId: uid,
+  targetLabel: name,
+});
+
+// Firestore ids can't contain slashes; getDoc would read them as a path
+const asDocId = (text: string) => (text && !text.includes("/") ? text : null);
+
+/** Merge lookups that may overlap, newest first. */
+function newestUnique<T>(lists: T[][], key: (t: T) => string, date: (t: T) => Date | null): T[] {
+  const byKey = new Map(lists.flat().map((t) => [key(t), t]));
+  return [...byKey.values()].sort((a, b) => (date(b)?.getTime() ?? 0) - (date(a)?.getTime() ?? 0));
+}
+
+/**
+ * Jobs of every status for the console, hidden ones included. Without a
+ * search: the newest jobs, or the most recently hidden. A search is looked
+ * up as a job id and a poster uid, and matched as keywords against every job
+ * (the most selective term in Firestore, the rest here).
+ */
+export async function findJobsForModeration(search: string, hiddenOnly: boolean): Promise<Job[]> {
+  const text = search.trim();
+
+  if (!text) {
+    // Ordering on a moderation field leaves out jobs that were never hidden
+    const snap = await getDocs(
+      query(
+        jobsCol(),
+        orderBy(hiddenOnly ? "moderation.hiddenAt" : "creationDate", "desc"),
+        limit(MODERATION_LIST_MAX)
+      )
+    );
+    return snap.docs.map((d) => d.data());
+  }
+
+  const id = asDocId(text);
+  const [first, ...rest] = searchTerms(text);
+
+  const [byId, byPoster, byKeywords] = await Promise.all([
+    id ? getDoc(doc(jobsCol(), id)) : null,
+    getDocs(
+      query(jobsCol(), where("userId", "==", text), orderBy("creationDate", "desc"), limit(MODERATION_LIST_MAX))
+    ),
+    first
+      ? getDocs(
+          query(
+            jobsCol(),
+            where("keywords", "array-contains-any", first.variants),
+            orderBy("creationDate", "desc"),
+            limit(MODERATION_LIST_MAX)
+          )
+        )
+      : null,
+  ]);
+
+  const found = newestUnique(
+    [
+      byId?.exists() ? [byId.data()] : [],
+      byPoster.docs.map((d) => d.data()),
+      (byKeywords?.docs ?? []).map((d) => d.data()).filter((j) => matchesTerms(j.keywords, rest)),
+    ],
+    (j) => j.id,
+    (j) => j.creationDate
+  );
+  return hiddenOnly ? found.filter((j) => j.moderation) : found;
+}
+
+/**
+ * Private profiles for the console (moderators can read them all). Without a
+ * search: the newest accounts. A search is looked up as a uid, an exact phone
+ * or ZIP, and the start of a name.
+ */
+export async function findUsersForModeration(search: string): Promise<UserProfile[]> {
+  const text = search.trim();
+
+  if (!text) {
+    const snap = await getDocs(query(usersCol(), orderBy("createdAt", "desc"), limit(MODERATION_LIST_MAX)));
+    return snap.docs.map((d) => d.data());
+  }
+
+  const id = asDocId(text);
+  // Names are usually capitalized; try what was typed and that
+  const prefixes = [...new Set([text, text.charAt(0).toUpperCase() + text.slice(1)])];
+
+  const [byUid, ...snaps] = await Promise.all([
+    id ? getDoc(doc(usersCol(), id)) : null,
+    getDocs(query(usersCol(), where("phone", "==", text), limit(MODERATION_LIST_MAX))),
+    getDocs(query(usersCol(), where("zip", "==", text), limit(MODERATION_LIST_MAX))),
+    ...prefixes.map((p) =>
+      getDocs(query(usersCol(), orderBy("name"), startAt(p), endAt(p + "\uf8ff"), limit(MODERATION_LIST_MAX)))
+    ),
+  ]);
+
+  return newestUnique(
+    [byUid?.exists() ? [byUid.data()] : [], ...snaps.map((snap) => snap.docs.map((d) => d.data()))],
+    (u) => u.uid,
+    (u) => u.createdAt
+  );
+}
+
+export async function listSuspensions(): Promise<Suspension[]> {
+  const snap = await getDocs(collection(db, "suspensions").withConverter(suspensionConverter));
+  return snap.docs.map((d) => d.data());
+}
+
+/** The caller's own suspension, or null; /jobs/new checks this before offering the form. */
+export async function getSuspension(uid: string): Promise<Suspension | null> {
+  const snap = await getDoc(suspensionRef(uid).withConverter(suspensionConverter));
+  return snap.exists() ? snap.data() : null;
+}
+
+export async function listAuditLog(): Promise<AuditEntry[]> {
+  const snap = await getDocs(
+    query(auditCol().withConverter(auditEntryConverter), orderBy("createdAt", "desc"), limit(MODERATION_LIST_MAX))
+  );
+  return snap.docs.map((d) => d.data());
+}
+
+/** Take a job out of the feed, search and profiles; its poster still sees it, with the reason. */
+export async function hideJob(moderatorUid: string, job: Job, reason: string): Promise<void> {
+  const batch = writeBatch(db);
+  batch.update(jobRef(job.id), {
+    moderation: { reason: reason.trim(), moderatorUid, hiddenAt: serverTimestamp() },
+  });
+  logAction(batch, moderatorUid, "hideJob", jobTarget(job), reason);
+  await batch.commit();
+}
+
+export async function unhideJob(moderatorUid: string, job: Job, reason: string): Promise<void> {
+  const batch = writeBatch(db);
+  // Null rather than removed: public queries match on `moderation == null`
+  batch.update(jobRef(job.id), { moderation: null });
+  logAction(batch, moderatorUid, "unhideJob", jobTarget(job), reason);
+  await batch.commit();
+}
+
+/**
+ * Delete a job and everything under it. Logged before the teardown starts, so
+ * a removal that fails halfway still shows up in the trail.
+ */
+export async function removeJob(moderatorUid: string, job: Job, reason: string): Promise<void> {
+  const batch = writeBatch(db);
+  logAction(batch, moderatorUid, "removeJob", jobTarget(job), reason);
+  await batch.commit();
+
+  await deleteJob(job.id);
+}
+
+export async function suspendUser(
+  moderatorUid: string,
+  user: Pick<UserProfile, "uid" | "name">,
+  reason: string
+): Promise<void> {
+  const batch = writeBatch(db);
+  batch.set(suspensionRef(user.uid), {
+    name: user.name,
+    reason: reason.trim(),
+    moderatorUid,
+    suspendedAt: serverTimestamp(),
+  });
+  logAction(batch, moderatorUid, "suspendUser", userTarget(user.uid, user.name), reason);
+  await batch.commit();
+}
+
+export async function unsuspendUser(
+  moderatorUid: string,
+  user: Pick<UserProfile, "uid" | "name">,
+  reason: string
+): Promise<void> {
+  const batch = writeBatch(db);
+  batch.delete(suspensionRef(user.uid));
+  logAction(batch, moderatorUid, "unsuspendUser", userTarget(user.uid, user.name), reason);
+  await batch.commit();
+}
@@ -0,0 +1,35 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  updateDoc,
+} from "firebase/firestore";
+import { db } from "./firebase";
+import { deleteInBatches } from "./batch";
+import { notificationConverter } from "./converters";
+import type { AppNotification } from "../types/notification";
+
+const notificationsCol = (uid: string) => collection(db, "users", uid, "notifications");
+
+export async function listNotifications(uid: string, max = 20): Promise<AppNotification[]> {
+  const snap = await getDocs(
+    query(
+      notificationsCol(uid).withConverter(notificationConverter),
+      orderBy("createdAt", "desc"),
+      limit(max)
+    )
+  );
+  return snap.docs.map((d) => d.data());
+}
+
+export async function markNotificationRead(uid: string, id: string): Promise<void> {
+  await updateDoc(doc(notificationsCol(uid), id), { read: true });
+}
+
+export async function deleteAllNotifications(uid: string): Promise<void> {
+  const snap = await getDocs(notificationsCol(uid));
+  await deleteInBatches(snap.docs.map((d) => d.ref));
+}
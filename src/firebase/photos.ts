@@ -0,0 +1,83 @@
+import { doc, updateDoc } from "firebase/firestore";
+import {
+  deleteObject,
+  getDownloadURL,
+  listAll,
+  ref,
+  uploadBytes,
+} from "firebase/storage";
+import { db, storage } from "./firebase";
+import type { JobPhoto } from "../types/job";
+import { resizeImage } from "../utils/images";
+
+export const MAX_JOB_PHOTOS = 6;
+
+// Longest side in px; big enough for a phone screen, small enough to upload on one
+const PHOTO_SIZE = 1600;
+const THUMB_SIZE = 320;
+
+const photosRef = (jobId: string) => ref(storage, `jobs/${jobId}/photos`);
+const photoRef = (jobId: string, file: string) => ref(storage, `jobs/${jobId}/photos/${file}`);
+
+async function uploadJobPhoto(jobId: string, file: File): Promise<JobPhoto> {
+  const id = crypto.randomUUID();
+  const [full, thumb] = await Promise.all([
+    resizeImage(file, PHOTO_SIZE),
+    resizeImage(file, THUMB_SIZE, 0.75),
+  ]);
+
+  const fullRef = photoRef(jobId, `${id}.jpg`);
+  const thumbRef = photoRef(jobId, `${id}_thumb.jpg`);
+  const metadata = { contentType: "image/jpeg" };
+
+  await Promise.all([
+    uploadBytes(fullRef, full.blob, metadata),
+    uploadBytes(thumbRef, thumb.blob, metadata),
+  ]);
+
+  const [url, thumbUrl] = await Promise.all([getDownloadURL(fullRef), getDownloadURL(thumbRef)]);
+  return { id, url, thumbUrl, width: full.width, height: full.height };
+}
+
+async function deletePhotoFiles(jobId: string, photoId: string): Promise<void> {
+  await Promise.all(
+    [`${photoId}.jpg`, `${photoId}_thumb.jpg`].map((file) =>
+      // Already gone is fine
+      deleteObject(photoRef(jobId, file)).catch(() => {})
+    )
+  );
+}
+
+/**
+ * Upload `added`, drop photos the owner removed (in `previous` but not
+ * `kept`), and write the resulting list to the job. Uploads that fail are
+ * skipped rather than failing the whole save; the count comes back so the
+ * page can say so.
+ */
+export async function saveJobPhotos(
+  jobId: string,
+  previous: JobPhoto[],
+  kept: JobPhoto[],
+  added: File[]
+): Promise<{ failed: number }> {
+  const room = Math.max(0, MAX_JOB_PHOTOS - kept.length);
+  const results = await Promise.allSettled(
+    added.slice(0, room).map((file) => uploadJobPhoto(jobId, file))
+  );
+
+  const uploaded = results.flatMap((r) => (r.status === "fulfilled" ? [r.value] : []));
+  const removed = previous.filter((p) => !kept.some((k) => k.id === p.id));
+
+  if (uploaded.length || removed.length) {
+    await updateDoc(doc(db, "jobs", jobId), { photos: [...kept, ...uploaded] });
+  }
+  await Promise.all(removed.map((p) => deletePhotoFiles(jobId, p.id)));
+
+  return { failed: results.length - uploaded.length };
+}
+
+/** Remove every file under a job's photo folder (job or account deletion). */
+export async function deleteJobPhotos(jobId: string): Promise<void> {
+  const list = await listAll(photosRef(jobId));
+  await Promise.all(list.items.map((item) => deleteObject(item)));
+}
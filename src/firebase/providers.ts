@@ -0,0 +1,69 @@
+import {
+  GoogleAuthProvider,
+  RecaptchaVerifier,
+  reauthenticateWithPhoneNumber,
+  reauthenticateWithPopup,
+  signInWithPhoneNumber,
+  signInWithPopup,
+  type ConfirmationResult,
+  type User,
+  type UserCredential,
+} from "firebase/auth";
+import { auth } from "./firebase";
+
+/** How an account proves who it is; decides how the profile page reauthenticates. */
+export type SignInMethod = "password" | "google" | "phone";
+
+export function signInMethod(user: User): SignInMethod {
+  const ids = user.providerData.map((p) => p.providerId);
+  if (ids.includes("password")) return "password";
+  if (ids.includes("google.com")) return "google";
+  return "phone";
+}
+
+export const SIGN_IN_METHOD_LABEL: Record<SignInMethod, string> = {
+  password: "email and password",
+  google: "Google",
+  phone: "your phone number",
+};
+
+export async function signInWithGoogle(): Promise<UserCredential> {
+  return signInWithPopup(auth, new GoogleAuthProvider());
+}
+
+export async function reauthenticateWithGoogle(user: User): Promise<void> {
+  await reauthenticateWithPopup(user, new GoogleAuthProvider());
+}
+
+/** "(555) 123-4567" → "+15551234567"; numbers typed with a + keep their country code. */
+export function toE164(phone: string): string {
+  const digits = phone.replace(/\D/g, "");
+  // Ten digits without a + are a US number missing its country code
+  if (!phone.trim().startsWith("+") && digits.length === 10) return `+1${digits}`;
+  return `+${digits}`;
+}
+
+/**
+ * Texts a sign-in code. The invisible reCAPTCHA renders into `container`,
+ * which must stay mounted until this resolves.
+ */
+export async function sendSignInCode(phone: string, container: HTMLElement): Promise<ConfirmationResult> {
+  const verifier = new RecaptchaVerifier(auth, container, { size: "invisible" });
+  try {
+    return await signInWithPhoneNumber(auth, toE164(phone), verifier);
+  } finally {
+    verifier.clear();
+  }
+}
+
+/** Texts a code to the signed-in user's own number; confirming it reauthenticates them. */
+export async function sendReauthCode(user: User, container: HTMLElement): Promise<ConfirmationResult> {
+  if (!user.phoneNumber) throw new Error("No phone number found for this account.");
+
+  const verifier = new RecaptchaVerifier(auth, container, { size: "invisible" });
+  try {
+    return await reauthenticateWithPhoneNumber(user, user.phoneNumber, verifier);
+  } finally {
+    verifier.clear();
+  }
+}
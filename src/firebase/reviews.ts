@@ -0,0 +1,87 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  increment,
+  limit,
+  orderBy,
+  query,
+  serverTimestamp,
+  where,
+  writeBatch,
+} from "firebase/firestore";
+import { db } from "./firebase";
+import { reviewConverter } from "./converters";
+import type { Job } from "../types/job";
+import type { Review } from "../types/review";
+
+const reviewRef = (id: string) => doc(db, "reviews", id);
+
+export const reviewId = (jobId: string, reviewerUid: string, revieweeUid: string) =>
+  `${jobId}_${reviewerUid}_${revieweeUid}`;
+
+export async function getReview(
+  jobId: string,
+  reviewerUid: string,
+  revieweeUid: string
+): Promise<Review | null> {
+  const snap = await getDoc(
+    reviewRef(reviewId(jobId, reviewerUid, revieweeUid)).withConverter(reviewConverter)
+  );
+  return snap.exists() ? snap.data() : null;
+}
+
+/** Latest reviews about `uid`, newest first. */
+export async function listReviewsFor(uid: string, max = 10): Promise<Review[]> {
+  const snap = await getDocs(
+    query(
+      collection(db, "reviews").withConverter(reviewConverter),
+      where("revieweeUid", "==", uid),
+      orderBy("createdAt", "desc"),
+      limit(max)
+    )
+  );
+  return snap.docs.map((d) => d.data());
+}
+
+/**
+ * Leave a review and fold it into the reviewee's public rating in one batch.
+ * Rules only accept it for a completed job the two were both part of, and
+ * only once.
+ */
+export async function submitReview(
+  job: Job,
+  reviewerUid: string,
+  reviewerName: string,
+  revieweeUid: string,
+  rating: number,
+  text: string
+): Promise<void> {
+  const id = reviewId(job.id, reviewerUid, revieweeUid);
+  const batch = writeBatch(db);
+
+  batch.set(reviewRef(id), {
+    jobId: job.id,
+    jobTitle: job.title,
+    reviewerUid,
+    reviewerName: reviewerName.trim(),
+    revieweeUid,
+    rating: Math.round(rating),
+    text: text.trim(),
+    createdAt: serverTimestamp(),
+  });
+
+  batch.set(
+    doc(db, "publicProfiles", revieweeUid),
+    {
+      ratingSum: increment(Math.round(rating)),
+      ratingCount: increment(1),
+      // Lets rules check the bump against the review written alongside it
+      lastReviewId: id,
+    },
+    { merge: true }
+  );
+
+  await batch.commit();
+}
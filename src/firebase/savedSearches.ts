@@ -0,0 +1,93 @@
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  orderBy,
+  query,
+  serverTimestamp,
+  updateDoc,
+} from "firebase/firestore";
+import { db } from "./firebase";
+import { deleteInBatches } from "./batch";
+import { savedSearchConverter } from "./converters";
+import { fetchJobsNear, fetchJobsSince } from "./jobs";
+import type { SavedSearch } from "../types/savedSearch";
+import { categoryLabel } from "../utils/categories";
+import { parseFeedParams } from "../utils/feedParams";
+import { geocodeZip } from "../utils/geo";
+import { matchesTerms, searchTerms } from "../utils/search";
+
+/** Counts stop here; the UI shows "99+". */
+export const NEW_MATCH_CAP = 99;
+
+const savedSearchesCol = (uid: string) => collection(db, "users", uid, "savedSearches");
+
+export async function listSavedSearches(uid: string): Promise<SavedSearch[]> {
+  const snap = await getDocs(
+    query(savedSearchesCol(uid).withConverter(savedSearchConverter), orderBy("createdAt", "desc"))
+  );
+  return snap.docs.map((d) => d.data());
+}
+
+export async function createSavedSearch(uid: string, name: string, queryString: string): Promise<string> {
+  const ref = await addDoc(savedSearchesCol(uid), {
+    name: name.trim(),
+    query: queryString,
+    createdAt: serverTimestamp(),
+    lastOpenedAt: serverTimestamp(),
+  });
+  return ref.id;
+}
+
+export async function markSavedSearchOpened(uid: string, id: string): Promise<void> {
+  await updateDoc(doc(savedSearchesCol(uid), id), { lastOpenedAt: serverTimestamp() });
+}
+
+export async function deleteSavedSearch(uid: string, id: string): Promise<void> {
+  await deleteDoc(doc(savedSearchesCol(uid), id));
+}
+
+export async function deleteAllSavedSearches(uid: string): Promise<void> {
+  const snap = await getDocs(savedSearchesCol(uid));
+  await deleteInBatches(snap.docs.map((d) => d.ref));
+}
+
+/**
+ * Jobs matching a saved search that were posted since it was last opened.
+ * Radius only applies when the search carries a ZIP; a "my location" origin
+ * isn't stored with the search.
+ */
+export async function countNewMatches(search: SavedSearch): Promise<number> {
+  const since = search.lastOpenedAt ?? search.createdAt;
+  if (!since) return 0;
+
+  const params = parseFeedParams(new URLSearchParams(search.query));
+  const terms = searchTerms(params.q);
+
+  // A local search counts inside its circle; a nationwide cap would hide them
+  const origin = params.r !== null && params.zip ? await geocodeZip(params.zip) : null;
+  if (origin && params.r !== null) {
+    const near = await fetchJobsNear(origin, params.r, params.cats);
+    const fresh = near.filter(
+      ({ job }) => job.creationDate && job.creationDate > since && matchesTerms(job.keywords, terms)
+    );
+    return Math.min(fresh.length, NEW_MATCH_CAP);
+  }
+
+  const jobs = await fetchJobsSince(since, terms, NEW_MATCH_CAP, params.cats);
+  return jobs.length;
+}
+
+/** "yard · Cleaning · 10001 · 25 mi" — a default name for the current filters. */
+export function describeSearch(queryString: string): string {
+  const p = parseFeedParams(new URLSearchParams(queryString));
+  const parts = [
+    p.q.trim(),
+    ...p.cats.map((c) => categoryLabel(c)),
+    p.zip,
+    p.r !== null ? `${p.r} mi` : "",
+  ].filter(Boolean);
+  return parts.length ? parts.join(" · ") : "All jobs";
+}
@@ -0,0 +1,30 @@
+import type { User } from "firebase/auth";
+
+// The token last sent, so AuthProvider and the login pages don't post it twice
+let synced: { token: string | null; done: Promise<void> } | null = null;
+
+/**
+ * Mirror the Firebase sign-in into the server session cookie (see
+ * server/session.ts): post the current ID token, or clear the cookie when
+ * signed out. Await it before navigating to a page the proxy guards.
+ */
+export async function syncSession(user: User | null): Promise<void> {
+  const token = user ? await user.getIdToken() : null;
+  if (synced?.token === token) return synced.done;
+
+  const done = (async () => {
+    const res = await fetch("/api/session", {
+      method: token ? "POST" : "DELETE",
+      headers: { "Content-Type": "application/json" },
+      body: token ? JSON.stringify({ idToken: token }) : undefined,
+    });
+    if (!res.ok) throw new Error("Couldn’t start your session. Try logging in again.");
+  })();
+
+  synced = { token, done };
+  // A failed attempt should be retried next time
+  done.catch(() => {
+    if (synced?.done === done) synced = null;
+  });
+  return done;
+}
@@ -0,0 +1,104 @@
+import {
+  doc,
+  getDoc,
+  serverTimestamp,
+  setDoc,
+  writeBatch,
+} from "firebase/firestore";
+import { db } from "./firebase";
+import { publicProfileConverter, userProfileConverter } from "./converters";
+import type { PublicProfile, UserProfile, UserProfileFields } from "../types/userProfile";
+
+const profileRef = (uid: string) => doc(db, "users", uid);
+const publicProfileRef = (uid: string) => doc(db, "publicProfiles", uid);
+
+export async function getUserProfile(uid: string): Promise<UserProfile | null> {
+  const snap = await getDoc(profileRef(uid).withConverter(userProfileConverter));
+  return snap.exists() ? snap.data() : null;
+}
+
+/**
+ * Create an editable profile (first visit to /profile), starting from whatever
+ * the sign-in provider already knows: a Google name, a verified phone number.
+ */
+export async function createUserProfile(
+  uid: string,
+  prefill: Partial<Pick<UserProfileFields, "name" | "phone">> = {}
+): Promise<void> {
+  const batch = writeBatch(db);
+  const name = prefill.name?.trim() ?? "";
+
+  batch.set(profileRef(uid), {
+    uid,
+    name,
+    phone: prefill.phone?.trim() ?? "",
+    address: "",
+    zip: "",
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+  });
+  batch.set(publicProfileRef(uid), { name, memberSince: serverTimestamp() }, { merge: true });
+
+  await batch.commit();
+}
+
+/**
+ * Mirror name and join date to the public profile for accounts created before
+ * it existed. No-op when already in sync.
+ */
+export async function syncPublicProfile(profile: UserProfile): Promise<void> {
+  const current = await getPublicProfile(profile.uid);
+  if (current && current.name === profile.name && current.memberSince) return;
+
+  // The rules only let memberSince be written while it's missing
+  await setDoc(
+    publicProfileRef(profile.uid),
+    current?.memberSince
+      ? { name: profile.name }
+      : { name: profile.name, memberSince: profile.createdAt ?? serverTimestamp() },
+    { merge: true }
+  );
+}
+
+export async function updateUserProfile(uid: string, fields: UserProfileFields): Promise<void> {
+  const batch = writeBatch(db);
+
+  batch.update(profileRef(uid), {
+    name: fields.name.trim(),
+    phone: fields.phone.trim(),
+    address: fields.address.trim(),
+    zip: fields.zip.trim(),
+    updatedAt: serverTimestamp(),
+  });
+  // Only the display name is mirrored; phone and address stay private
+  batch.set(publicProfileRef(uid), { name: fields.name.trim() }, { merge: true });
+
+  await batch.commit();
+}
+
+/**
+ * Delete the private profile and blank the public name. The public doc itself
+ * stays so reviews keep pointing at a rating nobody can reset.
+ */
+export async function deleteUserProfile(uid: string): Promise<void> {
+  const batch = writeBatch(db);
+  batch.set(publicProfileRef(uid), { name: "" }, { merge: true });
+  batch.delete(profileRef(uid));
+  await batch.commit();
+}
+
+/** Anyone's public profile; null for users who never saved a profile or got reviewed. */
+export async function getPublicProfile(uid: string): Promise<PublicProfile | null> {
+  const snap = await getDoc(publicProfileRef(uid).withConverter(publicProfileConverter));
+  return snap.exists() ? snap.data() : null;
+}
+
+/** Profile fields required before a user may post a job. */
+export function missingProfileFields(p: UserProfile): string[] {
+  const missing: string[] = [];
+  if (!p.name.trim()) missing.push("name");
+  if (!p.phone.trim()) missing.push("phone");
+  if (!p.address.trim()) missing.push("address");
+  if (!p.zip.trim()) missing.push("zip");
+  return missing;
+}
@@ -0,0 +1,28 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { SESSION_COOKIE, verifySessionCookie } from "./server/session";
+
+/**
+ * Server-side guard for pages that need an account (Next 16's name for
+ * middleware). Signed-out visitors go to /login, which sends them back via
+ * `?next=`; /admin also turns away anyone without the admin claim.
+ * RequireAuth still covers the client once the page loads.
+ */
+export async function proxy(request: NextRequest) {
+  const session = await verifySessionCookie(request.cookies.get(SESSION_COOKIE)?.value);
+  const { pathname, search } = request.nextUrl;
+
+  if (session) {
+    if (pathname.startsWith("/admin") && !session.admin) {
+      return NextResponse.redirect(new URL("/", request.url));
+    }
+    return NextResponse.next();
+  }
+
+  const login = new URL("/login", request.url);
+  login.searchParams.set("next", pathname + search);
+  return NextResponse.redirect(login);
+}
+
+export const config = {
+  matcher: ["/jobs/new", "/my-jobs/:path*", "/profile/:path*", "/admin/:path*"],
+};
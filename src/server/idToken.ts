@@ -0,0 +1,27 @@
+import { getApps, initializeApp } from "firebase-admin/app";
+import { getAuth } from "firebase-admin/auth";
+import type { VerifiedToken } from "./session";
+
+/**
+ * ID token verification for /api/session, kept apart from session.ts so the
+ * proxy doesn't bundle the Admin SDK. Checking a token only needs the project
+ * id; the SDK fetches and caches Google's signing keys itself.
+ */
+function adminApp() {
+  return getApps()[0] ?? initializeApp({ projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID });
+}
+
+/** The signed-in user, or null when the token is forged, expired or for another project. */
+export async function verifyIdToken(idToken: string): Promise<VerifiedToken | null> {
+  if (!idToken) return null;
+  // The Admin SDK accepts the Auth emulator's unsigned tokens whenever this is
+  // set, so never honour it in a production build.
+  if (process.env.NODE_ENV === "production" && process.env.FIREBASE_AUTH_EMULATOR_HOST) return null;
+
+  try {
+    const decoded = await getAuth(adminApp()).verifyIdToken(idToken);
+    return { uid: decoded.uid, admin: decoded.admin === true, exp: decoded.exp };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Server-side sessions for the proxy. The browser posts its Firebase ID token
+ * to /api/session; once verified we set our own signed cookie holding the uid
+ * and admin claim, which the proxy can check without a network call. The
+ * client re-posts whenever Firebase refreshes the token, so an active user's
+ * cookie keeps sliding forward. The admin claim is only trusted until the ID
+ * token it was read from expires (an hour at most), so revoking it takes
+ * effect without waiting out the cookie.
+ */
+
+export const SESSION_COOKIE = "__session";
+export const SESSION_MAX_AGE = 5 * 24 * 60 * 60; // seconds
+
+/** Who a valid session cookie belongs to; `admin` holds only while the ID token it came from is unexpired. */
+export type Session = { uid: string; admin: boolean };
+
+/** A verified ID token: the session it grants and when the token (and so its admin claim) expires. */
+export type VerifiedToken = Session & { exp: number };
+
+const encoder = new TextEncoder();
+
+const fromBase64Url = (s: string) => new Uint8Array(Buffer.from(s, "base64url"));
+const toBase64Url = (bytes: ArrayBuffer | Uint8Array) => Buffer.from(new Uint8Array(bytes)).toString("base64url");
+const decodeJson = <T>(s: string): T => JSON.parse(Buffer.from(s, "base64url").toString("utf8"));
+
+async function hmacKey(): Promise<CryptoKey> {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) throw new Error("SESSION_SECRET is not set.");
+  return crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, [
+    "sign",
+    "verify",
+  ]);
+}
+
+/** Cookie value for a session: base64url JSON payload and its HMAC. */
+export async function createSessionCookie({ uid, admin, exp: adminExp }: VerifiedToken): Promise<string> {
+  const exp = Math.floor(Date.now() / 1000) + SESSION_MAX_AGE;
+  const payload = toBase64Url(encoder.encode(JSON.stringify({ uid, admin, adminExp, exp })));
+  const sig = await crypto.subtle.sign("HMAC", await hmacKey(), encoder.encode(payload));
+  return `${payload}.${toBase64Url(sig)}`;
+}
+
+/** The session in a valid, unexpired cookie; null otherwise (including a missing secret). */
+export async function verifySessionCookie(value: string | undefined): Promise<Session | null> {
+  const [payload, sig] = value?.split(".") ?? [];
+  if (!payload || !sig) return null;
+
+  try {
+    const ok = await crypto.subtle.verify("HMAC", await hmacKey(), fromBase64Url(sig), encoder.encode(payload));
+    if (!ok) return null;
+
+    const { uid, admin, adminExp, exp } = decodeJson<Session & { adminExp: number; exp: number }>(payload);
+    const now = Date.now() / 1000;
+    return exp > now ? { uid, admin: admin === true && adminExp > now } : null;
+  } catch {
+    return null;
+  }
+}
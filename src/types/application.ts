@@ -0,0 +1,20 @@
+export type ApplicationStatus = "pending" | "accepted" | "declined";
+
+/**
+ * A worker's "I'm interested" on a job, at jobs/{jobId}/applications/{workerUid}.
+ * On a recurring job the worker can come back for more dates: that asks for
+ * new `occurrences` and puts the application back to pending, while the dates
+ * already accepted stay in `acceptedOccurrences`.
+ */
+export type Application = {
+  id: string; // same as workerUid: one application per worker per job
+  jobId: string;
+  workerUid: string;
+  workerName: string;
+  message: string;
+  occurrences: string[]; // occurrenceKey()s asked for on a recurring job; empty otherwise
+  acceptedOccurrences: string[]; // every date the poster has accepted them for so far
+  status: ApplicationStatus;
+  createdAt: Date | null;
+  decidedAt: Date | null;
+};
\ No newline at end of file
@@ -0,0 +1,13 @@
+/**
+ * A job a user saved for later, at users/{uid}/bookmarks/{jobId}. Keeps a
+ * copy of the basics so the Saved list can still name a job after it's deleted.
+ */
+export type Bookmark = {
+  id: string; // same as jobId: one bookmark per job
+  jobId: string;
+  title: string;
+  address: string;
+  zip: string;
+  tip: number;
+  savedAt: Date | null;
+};
@@ -0,0 +1,26 @@
+/**
+ * A thread between a job's poster and one worker, at conversations/{id}.
+ * The id is `${jobId}_${workerUid}`, so each pair gets one thread per job.
+ */
+export type Conversation = {
+  id: string;
+  jobId: string;
+  jobTitle: string;
+  posterUid: string;
+  workerUid: string;
+  workerName: string;
+  participants: string[]; // [posterUid, workerUid], for array-contains queries
+  lastMessage: string;
+  lastMessageAt: Date | null;
+  lastSenderUid: string;
+  unread: Record<string, number>; // per participant uid
+  createdAt: Date | null;
+};
+
+/** One message, at conversations/{id}/messages/{messageId}. */
+export type Message = {
+  id: string;
+  senderUid: string;
+  text: string;
+  createdAt: Date | null;
+};
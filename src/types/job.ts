@@ -1,12 +1,79 @@
+import type { JobModeration } from "./moderation";
+import type { JobCategory } from "../utils/categories";
+import type { LatLng } from "../utils/geo";
+
+/** Where a job is in its life; only `open` jobs show in the public feed. */
+export type JobStatus = "open" | "assigned" | "completed" | "cancelled";
+
+/** An uploaded picture, stored under jobs/{jobId}/photos/ in Firebase Storage. */
+export type JobPhoto = {
+  id: string;
+  url: string;
+  thumbUrl: string;
+  width: number;
+  height: number;
+};
+
+/** "weekdays" repeats on the listed days of every week; the rest repeat from `startDate`. */
+export type RecurrenceFrequency = "weekly" | "biweekly" | "monthly" | "weekdays";
+
+/** A repeating schedule, see utils/recurrence. */
+export type JobRecurrence = {
+  frequency: RecurrenceFrequency;
+  weekdays: number[]; // 0 = Sunday; only used by "weekdays"
+  startDate: Date; // first occurrence
+  until: Date | null; // last day an occurrence may fall on; null = no end
+};
+
+/** Who may read a job's contact details: any signed-in user, or only accepted workers. */
+export type ContactAccess = "signedIn" | "accepted";
+
+/** Kept out of the public job doc, at jobs/{id}/private/contact. */
+export type JobContact = {
+  contactEmail?: string;
+  contactPhone?: string;
+};
+
 export type Job = {
   id: string;
   userId: string;
   title: string;
-  description?: string;
+  description: string;
+  category: JobCategory | null; // null for jobs posted before categories existed
+  subcategory: string | null;
   address: string;
   zip: string;
+  contactAccess: ContactAccess;
+  location: LatLng | null;
   tip: number;
   standingOffer: boolean;
-  endDate?: any; // Firestore Timestamp or null
-  creationDate?: any; // Firestore Timestamp
-};
\ No newline at end of file
+  endDate: Date | null;
+  recurrence: JobRecurrence | null; // replaces endDate/standingOffer when set
+  expiresAt: Date | null; // derived from endDate or recurrence; null while it has no end
+  creationDate: Date | null;
+  updatedAt: Date | null; // set when the owner edits
+  keywords: string[]; // search index, see utils/search
+  status: JobStatus;
+  statusChangedAt: Date | null;
+  photos: JobPhoto[];
+  filledOccurrences: string[]; // occurrenceKey()s a worker has been accepted for
+  duplicatedFrom: string | null; // the earlier job this was "posted again" from
+  moderation: JobModeration | null; // set while a moderator has it hidden
+};
+
+/** The editable part of a job, as written by the new/edit forms. */
+export type JobFields = Pick<
+  Job,
+  | "title"
+  | "description"
+  | "category"
+  | "subcategory"
+  | "address"
+  | "zip"
+  | "contactAccess"
+  | "tip"
+  | "standingOffer"
+  | "endDate"
+  | "recurrence"
+> &
+  JobContact;
\ No newline at end of file
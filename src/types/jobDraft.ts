@@ -0,0 +1,33 @@
+import type { ContactAccess, RecurrenceFrequency } from "./job";
+import type { JobCategory } from "../utils/categories";
+
+/**
+ * The new-job form as typed, kept as the form's own strings so a half-filled
+ * draft round-trips exactly. Picked photos aren't included.
+ */
+export type JobDraftFields = {
+  title: string;
+  description: string;
+  category: JobCategory | "";
+  subcategory: string;
+  address: string;
+  zip: string;
+  contactEmail: string;
+  contactPhone: string;
+  contactAccess: ContactAccess;
+  tipText: string;
+  standingOffer: boolean;
+  endDate: string;
+  repeat: RecurrenceFrequency | "none";
+  weekdays: number[];
+  startDate: string;
+  until: string;
+};
+
+/** An unfinished job post, autosaved at users/{uid}/jobDrafts/{id}. */
+export type JobDraft = {
+  id: string;
+  fields: JobDraftFields;
+  duplicatedFrom: string | null; // set when the draft started as "Post again"
+  updatedAt: Date | null;
+};
@@ -0,0 +1,29 @@
+/** Set on a job a moderator hid; hidden jobs drop out of every public list. */
+export type JobModeration = {
+  reason: string;
+  moderatorUid: string;
+  hiddenAt: Date | null;
+};
+
+/** At suspensions/{uid}; a suspended user can't post jobs. */
+export type Suspension = {
+  uid: string;
+  name: string; // profile name when suspended, for the admin list
+  reason: string;
+  moderatorUid: string;
+  suspendedAt: Date | null;
+};
+
+export type ModerationAction = "hideJob" | "unhideJob" | "removeJob" | "suspendUser" | "unsuspendUser";
+
+/** One moderator action, at auditLog/{id}. Entries are never edited or deleted. */
+export type AuditEntry = {
+  id: string;
+  action: ModerationAction | null; // null for an action this version doesn't know
+  targetType: "job" | "user";
+  targetId: string;
+  targetLabel: string; // job title or user name at the time, since the target may be gone
+  reason: string;
+  moderatorUid: string;
+  createdAt: Date | null;
+};
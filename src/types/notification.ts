@@ -0,0 +1,12 @@
+import type { ApplicationStatus } from "./application";
+
+/** In-app notice at users/{uid}/notifications/{id}. */
+export type AppNotification = {
+  id: string;
+  type: "application";
+  jobId: string;
+  jobTitle: string;
+  status: ApplicationStatus;
+  createdAt: Date | null;
+  read: boolean;
+};
\ No newline at end of file
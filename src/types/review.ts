@@ -0,0 +1,15 @@
+/**
+ * A 1–5 star review left after a completed job, at reviews/{id} where the id
+ * is `${jobId}_${reviewerUid}_${revieweeUid}`: one per side per job.
+ */
+export type Review = {
+  id: string;
+  jobId: string;
+  jobTitle: string;
+  reviewerUid: string;
+  reviewerName: string;
+  revieweeUid: string;
+  rating: number;
+  text: string;
+  createdAt: Date | null;
+};
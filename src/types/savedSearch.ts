@@ -0,0 +1,7 @@
+export type SavedSearch = {
+  id: string;
+  name: string;
+  query: string; // feed query string, e.g. "q=yard&zip=10001&r=25"
+  createdAt: Date | null;
+  lastOpenedAt: Date | null;
+};
\ No newline at end of file
@@ -4,6 +4,20 @@ export type UserProfile = {
   phone: string;
   address: string;
   zip: string;
-  createdAt?: any; // Firestore Timestamp
-  updatedAt?: any; // Firestore Timestamp
-};
\ No newline at end of file
+  createdAt: Date | null;
+  updatedAt: Date | null;
+};
+
+/**
+ * What other users may see, at publicProfiles/{uid}. The rating totals only
+ * move when someone leaves a review (see firebase/reviews).
+ */
+export type PublicProfile = {
+  uid: string;
+  name: string;
+  memberSince: Date | null; // mirrors UserProfile.createdAt
+  ratingSum: number;
+  ratingCount: number;
+};
+
+export type UserProfileFields = Pick<UserProfile, "name" | "phone" | "address" | "zip">;
\ No newline at end of file
@@ -0,0 +1,117 @@
+type JobCategoryDef = {
+  id: string;
+  label: string;
+  subcategories: readonly { id: string; label: string }[];
+};
+
+/**
+ * Fixed job taxonomy. Ids are stored on jobs and in feed URLs, so only ever
+ * add to this list; renaming a label is fine, changing an id is not.
+ */
+export const JOB_CATEGORIES = [
+  {
+    id: "moving",
+    label: "Moving & hauling",
+    subcategories: [
+      { id: "furniture", label: "Furniture moving" },
+      { id: "junk", label: "Junk removal" },
+      { id: "delivery", label: "Pickup & delivery" },
+      { id: "packing", label: "Packing" },
+    ],
+  },
+  {
+    id: "yard",
+    label: "Yard & outdoor",
+    subcategories: [
+      { id: "mowing", label: "Lawn mowing" },
+      { id: "leaves", label: "Leaf cleanup" },
+      { id: "snow", label: "Snow removal" },
+      { id: "gardening", label: "Gardening" },
+      { id: "gutters", label: "Gutter cleaning" },
+    ],
+  },
+  {
+    id: "repair",
+    label: "Home repair",
+    subcategories: [
+      { id: "drywall", label: "Drywall" },
+      { id: "painting", label: "Painting" },
+      { id: "plumbing", label: "Plumbing" },
+      { id: "electrical", label: "Electrical" },
+      { id: "carpentry", label: "Carpentry" },
+    ],
+  },
+  {
+    id: "assembly",
+    label: "Assembly & mounting",
+    subcategories: [
+      { id: "furniture", label: "Furniture assembly" },
+      { id: "tv", label: "TV mounting" },
+      { id: "shelves", label: "Shelves & pictures" },
+    ],
+  },
+  {
+    id: "cleaning",
+    label: "Cleaning",
+    subcategories: [
+      { id: "house", label: "House cleaning" },
+      { id: "moveout", label: "Move-out cleaning" },
+      { id: "windows", label: "Windows" },
+      { id: "garage", label: "Garage & basement" },
+    ],
+  },
+  {
+    id: "errands",
+    label: "Errands",
+    subcategories: [
+      { id: "groceries", label: "Groceries & shopping" },
+      { id: "waiting", label: "Waiting in line" },
+      { id: "returns", label: "Returns & drop-offs" },
+    ],
+  },
+  {
+    id: "pets",
+    label: "Pet care",
+    subcategories: [
+      { id: "walking", label: "Dog walking" },
+      { id: "sitting", label: "Pet sitting" },
+    ],
+  },
+  {
+    id: "tech",
+    label: "Tech help",
+    subcategories: [
+      { id: "setup", label: "Device setup" },
+      { id: "wifi", label: "Wi-Fi & networking" },
+    ],
+  },
+  {
+    id: "other",
+    label: "Other",
+    subcategories: [],
+  },
+] as const satisfies readonly JobCategoryDef[];
+
+export type JobCategory = (typeof JOB_CATEGORIES)[number]["id"];
+
+const byId = new Map<string, JobCategoryDef>(JOB_CATEGORIES.map((c) => [c.id, c]));
+
+export function isJobCategory(v: unknown): v is JobCategory {
+  return typeof v === "string" && byId.has(v);
+}
+
+export function subcategoriesOf(category: JobCategory | null): readonly { id: string; label: string }[] {
+  return category ? byId.get(category)?.subcategories ?? [] : [];
+}
+
+export function isSubcategoryOf(category: JobCategory | null, v: unknown): v is string {
+  return typeof v === "string" && subcategoriesOf(category).some((s) => s.id === v);
+}
+
+/** "Home repair" or "Home repair · Drywall"; empty for uncategorized jobs. */
+export function categoryLabel(category: JobCategory | null, subcategory: string | null = null): string {
+  if (!category) return "";
+  const label = byId.get(category)?.label ?? "";
+  const sub = subcategoriesOf(category).find((s) => s.id === subcategory);
+  return sub ? `${label} · ${sub.label}` : label;
+}
@@ -0,0 +1,51 @@
+import { isJobCategory, type JobCategory } from "./categories";
+
+export type SortMode = "newest" | "tipHigh" | "tipLow" | "distance";
+export type ViewMode = "list" | "map" | "saved";
+
+export const RADIUS_OPTIONS = [5, 10, 25, 50, 100];
+export const DEFAULT_RADIUS = 10;
+
+const SORT_MODES: SortMode[] = ["newest", "tipHigh", "tipLow", "distance"];
+const VIEW_MODES: ViewMode[] = ["list", "map", "saved"];
+
+/**
+ * Feed filters as they appear in the URL:
+ * `/jobs?q=yard&cat=yard,repair&zip=10001&r=25&sort=distance&view=map`. A
+ * present `r` means the radius filter is on.
+ */
+export type FeedParams = {
+  q: string;
+  cats: JobCategory[];
+  zip: string;
+  r: number | null;
+  sort: SortMode;
+  view: ViewMode;
+};
+
+export function parseFeedParams(sp: { get(name: string): string | null }): FeedParams {
+  const r = Number(sp.get("r"));
+  const sort = sp.get("sort") as SortMode;
+  const view = sp.get("view") as ViewMode;
+
+  return {
+    q: sp.get("q") ?? "",
+    cats: [...new Set((sp.get("cat") ?? "").split(",").filter(isJobCategory))],
+    zip: (sp.get("zip") ?? "").trim(),
+    r: RADIUS_OPTIONS.includes(r) ? r : null,
+    sort: SORT_MODES.includes(sort) ? sort : "newest",
+    view: VIEW_MODES.includes(view) ? view : "list",
+  };
+}
+
+/** Inverse of parseFeedParams; defaults are left out to keep links short. */
+export function feedQueryString(p: FeedParams): string {
+  const sp = new URLSearchParams();
+  if (p.q.trim()) sp.set("q", p.q.trim());
+  if (p.cats.length) sp.set("cat", p.cats.join(","));
+  if (p.zip) sp.set("zip", p.zip);
+  if (p.r !== null) sp.set("r", String(p.r));
+  if (p.sort !== "newest") sp.set("sort", p.sort);
+  if (p.view !== "list") sp.set("view", p.view);
+  return sp.toString();
+}
@@ -0,0 +1,19 @@
+export const normalize = (s: unknown) => (typeof s === "string" ? s.trim() : "");
+
+export function formatMoney(n: number) {
+  if (!Number.isFinite(n)) return "";
+  return n.toLocaleString(undefined, { style: "currency", currency: "USD" });
+}
+
+/** "123 Main St • 10001", or whichever half is present. */
+export function formatAddress(address: string, zip: string) {
+  const a = normalize(address);
+  const z = normalize(zip);
+  return a ? `${a}${z ? ` • ${z}` : ""}` : z;
+}
+
+/** Average to one decimal (e.g. 4.5); null when nobody has rated yet. */
+export function averageRating(ratingSum: number, ratingCount: number): number | null {
+  if (!ratingCount) return null;
+  return Math.round((ratingSum / ratingCount) * 10) / 10;
+}
@@ -1,5 +1,9 @@
+import { geohashForLocation } from "geofire-common";
+
 export type LatLng = { lat: number; lng: number };
 
+export const METERS_PER_MILE = 1609.344;
+
 export function haversineMiles(a: LatLng, b: LatLng): number {
   const R = 3958.7613; // Earth radius in miles
   const toRad = (x: number) => (x * Math.PI) / 180;
@@ -63,6 +67,11 @@ export async function geocodeZip(zip: string): Promise<LatLng | null> {
   return coords;
 }
 
+/** Geohash stored next to a job's `location` so radius queries can range-scan it. */
+export function geohashOf(c: LatLng): string {
+  return geohashForLocation([c.lat, c.lng]);
+}
+
 export function formatMiles(miles: number): string {
   if (!Number.isFinite(miles)) return "";
   if (miles < 10) return `${miles.toFixed(1)} mi`;
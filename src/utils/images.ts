@@ -0,0 +1,33 @@
+export type ResizedImage = { blob: Blob; width: number; height: number };
+
+/**
+ * Scale an image down to fit `maxSize` on its longest side and re-encode it as
+ * JPEG. Drawing through a canvas drops EXIF (GPS, camera serials) along the
+ * way; orientation is applied first so photos don't end up sideways.
+ */
+export async function resizeImage(file: Blob, maxSize: number, quality = 0.82): Promise<ResizedImage> {
+  const bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+
+  try {
+    const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Could not process the image.");
+    ctx.drawImage(bitmap, 0, 0, width, height);
+
+    const blob = await new Promise<Blob | null>((resolve) =>
+      canvas.toBlob(resolve, "image/jpeg", quality)
+    );
+    if (!blob) throw new Error("Could not process the image.");
+
+    return { blob, width, height };
+  } finally {
+    bitmap.close();
+  }
+}
@@ -0,0 +1,56 @@
+import type { Job, JobStatus } from "../types/job";
+import { lastOccurrence, upcomingOccurrences } from "./recurrence";
+
+export const JOB_STATUSES: JobStatus[] = ["open", "assigned", "completed", "cancelled"];
+
+export const JOB_STATUS_LABEL: Record<JobStatus, string> = {
+  open: "Open",
+  assigned: "Assigned",
+  completed: "Completed",
+  cancelled: "Cancelled",
+};
+
+/**
+ * Allowed owner moves. Completed is final; a cancelled or assigned job can be
+ * reopened. Mirrored in firestore.rules.
+ */
+export const JOB_STATUS_TRANSITIONS: Record<JobStatus, JobStatus[]> = {
+  open: ["assigned", "cancelled"],
+  assigned: ["completed", "open", "cancelled"],
+  completed: [],
+  cancelled: ["open"],
+};
+
+export function canTransition(from: JobStatus, to: JobStatus) {
+  return JOB_STATUS_TRANSITIONS[from].includes(to);
+}
+
+function dayAfter(date: Date): Date {
+  const d = new Date(date);
+  d.setHours(0, 0, 0, 0);
+  d.setDate(d.getDate() + 1);
+  return d;
+}
+
+/**
+ * When a job drops out of the feed: the start of the day after its end date,
+ * so a job ending today is still listed all day. Standing offers never expire;
+ * recurring jobs expire after their last occurrence, if they have one.
+ */
+export function jobExpiry(
+  job: Pick<Job, "standingOffer" | "endDate" | "recurrence">
+): Date | null {
+  if (job.recurrence) {
+    if (!job.recurrence.until) return null;
+    return dayAfter(lastOccurrence(job.recurrence) ?? job.recurrence.startDate);
+  }
+
+  if (job.standingOffer || !job.endDate) return null;
+  return dayAfter(job.endDate);
+}
+
+/** Still listed: not expired, and for recurring jobs, another occurrence ahead. */
+export function isActive(job: Pick<Job, "expiresAt" | "recurrence">, now = new Date()) {
+  if (job.recurrence) return upcomingOccurrences(job.recurrence, now, 1).length > 0;
+  return !job.expiresAt || job.expiresAt > now;
+}
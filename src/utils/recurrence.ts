@@ -0,0 +1,159 @@
+import type { JobRecurrence, RecurrenceFrequency } from "../types/job";
+
+/**
+ * Schedules for recurring jobs. Everything works in whole local days: an
+ * occurrence is a date, not a time, and `until` is the last day it may fall on.
+ */
+
+export const RECURRENCE_LABEL: Record<RecurrenceFrequency, string> = {
+  weekly: "Every week",
+  biweekly: "Every other week",
+  monthly: "Every month",
+  weekdays: "On specific days",
+};
+
+export const RECURRENCE_FREQUENCIES = Object.keys(RECURRENCE_LABEL) as RecurrenceFrequency[];
+
+/** Indexed like Date.getDay(): 0 = Sunday. */
+export const WEEKDAY_SHORT = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const WEEKDAY_LONG = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function startOfDay(d: Date): Date {
+  const x = new Date(d);
+  x.setHours(0, 0, 0, 0);
+  return x;
+}
+
+function addDays(d: Date, n: number): Date {
+  const x = new Date(d);
+  x.setDate(x.getDate() + n);
+  return x;
+}
+
+// Rounding absorbs the hour gained or lost across a DST change
+const daysBetween = (a: Date, b: Date) =>
+  Math.round((startOfDay(b).getTime() - startOfDay(a).getTime()) / DAY_MS);
+
+/** Step `k` (0 = the start date) of a weekly, biweekly or monthly schedule. */
+function nthOccurrence(rec: JobRecurrence, k: number): Date {
+  const start = startOfDay(rec.startDate);
+
+  if (rec.frequency === "monthly") {
+    // The 31st falls on the last day of shorter months
+    const d = new Date(start.getFullYear(), start.getMonth() + k, 1);
+    const lastDay = new Date(d.getFullYear(), d.getMonth() + 1, 0).getDate();
+    d.setDate(Math.min(start.getDate(), lastDay));
+    return d;
+  }
+
+  return addDays(start, k * (rec.frequency === "biweekly" ? 14 : 7));
+}
+
+/** How many whole steps fit between the start date and `day` (may be negative). */
+function stepsUntil(rec: JobRecurrence, day: Date): number {
+  const start = startOfDay(rec.startDate);
+
+  if (rec.frequency === "monthly") {
+    return (day.getFullYear() - start.getFullYear()) * 12 + day.getMonth() - start.getMonth();
+  }
+
+  return Math.floor(daysBetween(start, day) / (rec.frequency === "biweekly" ? 14 : 7));
+}
+
+/** The next `max` occurrences on or after `from`'s day, soonest first. */
+export function upcomingOccurrences(rec: JobRecurrence, from = new Date(), max = 5): Date[] {
+  const start = startOfDay(rec.startDate);
+  const today = startOfDay(from);
+  const first = today > start ? today : start;
+  const until = rec.until ? startOfDay(rec.until) : null;
+  const out: Date[] = [];
+
+  if (rec.frequency === "weekdays") {
+    if (!rec.weekdays.length) return out;
+    for (let d = first; out.length < max && (!until || d <= until); d = addDays(d, 1)) {
+      if (rec.weekdays.includes(d.getDay())) out.push(d);
+    }
+    return out;
+  }
+
+  for (let k = Math.max(0, stepsUntil(rec, first)); out.length < max; k++) {
+    const d = nthOccurrence(rec, k);
+    if (until && d > until) break;
+    if (d >= first) out.push(d);
+  }
+  return out;
+}
+
+/** The final occurrence of a schedule with an end, or null when it repeats forever (or never runs). */
+export function lastOccurrence(rec: JobRecurrence): Date | null {
+  if (!rec.until) return null;
+  const start = startOfDay(rec.startDate);
+  const until = startOfDay(rec.until);
+
+  if (rec.frequency === "weekdays") {
+    if (!rec.weekdays.length) return null;
+    for (let d = until; d >= start; d = addDays(d, -1)) {
+      if (rec.weekdays.includes(d.getDay())) return d;
+    }
+    return null;
+  }
+
+  for (let k = stepsUntil(rec, until); k >= 0; k--) {
+    const d = nthOccurrence(rec, k);
+    if (d <= until) return d;
+  }
+  return null;
+}
+
+/** Stable id for one occurrence: its local date as YYYY-MM-DD. */
+export function occurrenceKey(d: Date): string {
+  const yyyy = d.getFullYear();
+  const mm = String(d.getMonth() + 1).padStart(2, "0");
+  const dd = String(d.getDate()).padStart(2, "0");
+  return `${yyyy}-${mm}-${dd}`;
+}
+
+export function occurrenceFromKey(key: string): Date {
+  return new Date(key + "T00:00:00");
+}
+
+/** "Sat, Oct 24" */
+export function formatOccurrence(d: Date): string {
+  return d.toLocaleDateString(undefined, { weekday: "short", month: "short", day: "numeric" });
+}
+
+function ordinal(n: number): string {
+  const tens = n % 100;
+  if (tens >= 11 && tens <= 13) return `${n}th`;
+  return `${n}${["th", "st", "nd", "rd"][n % 10] ?? "th"}`;
+}
+
+/** "Every Saturday", "Every other Tuesday until 12/31/2026", "Monthly on the 1st". */
+export function describeRecurrence(rec: JobRecurrence): string {
+  const start = rec.startDate;
+  let text: string;
+
+  switch (rec.frequency) {
+    case "weekly":
+      text = `Every ${WEEKDAY_LONG[start.getDay()]}`;
+      break;
+    case "biweekly":
+      text = `Every other ${WEEKDAY_LONG[start.getDay()]}`;
+      break;
+    case "monthly":
+      text = `Monthly on the ${ordinal(start.getDate())}`;
+      break;
+    case "weekdays": {
+      const days = [...rec.weekdays].sort((a, b) => a - b);
+      text =
+        days.join() === "1,2,3,4,5"
+          ? "Every weekday"
+          : `Every ${days.map((d) => WEEKDAY_SHORT[d]).join(", ")}`;
+      break;
+    }
+  }
+
+  return rec.until ? `${text} until ${rec.until.toLocaleDateString()}` : text;
+}
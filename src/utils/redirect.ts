@@ -0,0 +1,13 @@
+/**
+ * A `?next=` value that is safe to navigate to after login: a path on this
+ * site, never a full or protocol-relative URL someone could phish with.
+ */
+export function safeNextPath(next: string | null): string | null {
+  if (!next || !next.startsWith("/") || next.startsWith("//") || next.startsWith("/\\")) return null;
+  return next;
+}
+
+/** "/login" or "/login?next=%2Fprofile". */
+export function withNext(path: string, next: string | null): string {
+  return next ? `${path}?next=${encodeURIComponent(next)}` : path;
+}
@@ -0,0 +1,85 @@
+/**
+ * Keyword search without a search server: every job stores `keywords`, the
+ * prefixes of each word in its title/description (both as written and
+ * stemmed), so Firestore's array-contains can answer "moving" and "mov" alike.
+ */
+
+const MIN_TERM = 2;
+const MAX_KEYWORDS = 600; // keeps long descriptions well under Firestore index limits
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "in", "is",
+  "it", "of", "on", "or", "the", "to", "with", "my", "me", "our", "we", "you",
+]);
+
+export type SearchTerm = {
+  /** Lowercased word as typed plus its stem; a job matches if it has either. */
+  variants: string[];
+};
+
+function words(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((w) => w.length >= MIN_TERM && !STOP_WORDS.has(w));
+}
+
+/** Light English suffix stripping: moving/moved/moves/mover -> "mov". */
+export function stem(word: string): string {
+  let w = word;
+  if (w.length <= 3) return w;
+
+  for (const suffix of ["ing", "ers", "er", "ed", "es"]) {
+    if (w.endsWith(suffix) && w.length - suffix.length >= 3) {
+      w = w.slice(0, -suffix.length);
+      break;
+    }
+  }
+
+  if (w === word && w.endsWith("s") && !w.endsWith("ss") && !w.endsWith("us")) {
+    w = w.slice(0, -1);
+  }
+
+  if (w.endsWith("e") && w.length > 3) w = w.slice(0, -1);
+
+  return w;
+}
+
+function prefixes(word: string): string[] {
+  const out: string[] = [];
+  for (let i = MIN_TERM; i <= word.length; i++) out.push(word.slice(0, i));
+  return out;
+}
+
+/** Index terms written onto a job whenever it is created or edited. */
+export function jobKeywords(job: { title: string; description: string }): string[] {
+  const set = new Set<string>();
+
+  for (const w of words(`${job.title} ${job.description}`)) {
+    for (const p of prefixes(w)) set.add(p);
+    for (const p of prefixes(stem(w))) set.add(p);
+    if (set.size >= MAX_KEYWORDS) break;
+  }
+
+  return [...set].slice(0, MAX_KEYWORDS);
+}
+
+/** Parse the search box into terms, longest (most selective) first. */
+export function searchTerms(text: string): SearchTerm[] {
+  const seen = new Set<string>();
+  const terms: SearchTerm[] = [];
+
+  for (const w of words(text)) {
+    if (seen.has(w)) continue;
+    seen.add(w);
+    terms.push({ variants: [...new Set([w, stem(w)])] });
+  }
+
+  return terms.sort((a, b) => b.variants[0].length - a.variants[0].length);
+}
+
+export function matchesTerms(keywords: string[], terms: SearchTerm[]): boolean {
+  if (!terms.length) return true;
+  const set = new Set(keywords);
+  return terms.every((t) => t.variants.some((v) => set.has(v)));
+}